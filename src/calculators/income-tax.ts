@@ -0,0 +1,191 @@
+import { INCOME_TAX_RULES } from '../constants/tax';
+import type {
+  IncomeTaxOptions,
+  IncomeTaxResult,
+  IncomeTaxRules,
+} from '../types/income-tax';
+import { divideAndRound } from './vat';
+
+export enum IncomeTaxCalculationErrorCode {
+  INVALID_AMOUNT = 'IR_001',
+  UNSUPPORTED_YEAR = 'IR_002',
+  INVALID_DEPENDENTS = 'IR_003',
+  INVALID_PERIOD = 'IR_004',
+}
+
+/**
+ * Custom error class for IR calculation issues.
+ *
+ * @property {IncomeTaxCalculationErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new IncomeTaxCalculationError(IncomeTaxCalculationErrorCode.UNSUPPORTED_YEAR, 'No IR rules for 2009', { year: 2009 });
+ */
+export class IncomeTaxCalculationError extends Error {
+  constructor(
+    public code: IncomeTaxCalculationErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'IncomeTaxCalculationError';
+  }
+}
+
+/**
+ * Returns the IR rules applying to a year: those of the latest finance law
+ * that changed them, at or before that year.
+ *
+ * @param year - The year of the salary
+ * @returns The IR rules, with amounts in centimes per year
+ *
+ * @throws {IncomeTaxCalculationError} If no rules are bundled for the year
+ *
+ * @example
+ * getIncomeTaxRules(2024).financeLaw; // 'LF 2023'
+ * getIncomeTaxRules(2026).financeLaw; // 'LF 2025'
+ */
+export function getIncomeTaxRules(year: number): IncomeTaxRules {
+  const rules = Number.isInteger(year)
+    ? [...INCOME_TAX_RULES].reverse().find(entry => entry.year <= year)
+    : undefined;
+
+  if (!rules) {
+    throw new IncomeTaxCalculationError(
+      IncomeTaxCalculationErrorCode.UNSUPPORTED_YEAR,
+      `No IR rules for ${year}: rules start in ${INCOME_TAX_RULES[0].year}`,
+      { year }
+    );
+  }
+
+  return rules;
+}
+
+/**
+ * Computes the income tax (IR) withheld on a salary:
+ * 1. the professional expenses deduction is taken from the gross taxable
+ *    income, at a rate depending on that income and up to a cap;
+ * 2. employee social contributions are deducted too, giving the net taxable
+ *    income;
+ * 3. the progressive scale applies to the net taxable income;
+ * 4. the deduction for family charges is taken from the tax.
+ *
+ * Monthly salaries are annualized, as the rules are set per year, and the
+ * annual tax is divided by 12. Amounts are in centimes and rounded half away
+ * from zero. The trace gives every step of the computation, per year.
+ *
+ * @param grossSalary - Gross taxable salary for the period, in centimes
+ * @param options - Computation options:
+ *   - `year`: Year of the salary (default: the current year).
+ *   - `period`: 'monthly' (default) or 'annual'.
+ *   - `dependents`: Number of dependents (default: 0).
+ *   - `socialContributions`: Employee social contributions for the period, in centimes (default: 0).
+ *
+ * @returns The tax for the period, with the rules applied and the computation trace
+ *
+ * @throws {IncomeTaxCalculationError} If the amounts or the options are invalid
+ *
+ * @example
+ * const result = computeIncomeTax(1000000, {
+ *   year: 2025,
+ *   dependents: 2,
+ *   socialContributions: 49480,
+ * });
+ * result.incomeTax; // 51823 (518,23 DH per month)
+ * result.trace.netTaxableIncome; // 8406240 (84 062,40 DH per year)
+ * result.trace.bracket; // { upTo: 10000000, rate: 30, deduction: 1800000 }
+ */
+export function computeIncomeTax(
+  grossSalary: number,
+  options: IncomeTaxOptions = {}
+): IncomeTaxResult {
+  const {
+    year = new Date().getFullYear(),
+    period = 'monthly',
+    dependents = 0,
+    socialContributions = 0,
+  } = options;
+
+  if (period !== 'monthly' && period !== 'annual') {
+    throw new IncomeTaxCalculationError(
+      IncomeTaxCalculationErrorCode.INVALID_PERIOD,
+      "Period must be 'monthly' or 'annual'",
+      { period }
+    );
+  }
+  [grossSalary, socialContributions].forEach(amount => {
+    if (!Number.isSafeInteger(amount) || amount < 0) {
+      throw new IncomeTaxCalculationError(
+        IncomeTaxCalculationErrorCode.INVALID_AMOUNT,
+        'Amounts must be non-negative integer numbers of centimes',
+        { grossSalary, socialContributions }
+      );
+    }
+  });
+  if (!Number.isInteger(dependents) || dependents < 0) {
+    throw new IncomeTaxCalculationError(
+      IncomeTaxCalculationErrorCode.INVALID_DEPENDENTS,
+      'Dependents must be a non-negative integer',
+      { dependents }
+    );
+  }
+
+  const rules = getIncomeTaxRules(year);
+  const periods = period === 'monthly' ? 12 : 1;
+  const grossIncome = grossSalary * periods;
+  const contributions = socialContributions * periods;
+
+  const { rates, cap } = rules.professionalExpenses;
+  const { rate: expensesRate } = findTier(rates, grossIncome);
+  const expenses = Math.min(
+    divideAndRound(grossIncome * expensesRate, 100),
+    cap
+  );
+
+  const netTaxableIncome = Math.max(grossIncome - expenses - contributions, 0);
+  const bracket = findTier(rules.brackets, netTaxableIncome);
+  const grossTax = Math.max(
+    divideAndRound(netTaxableIncome * bracket.rate, 100) - bracket.deduction,
+    0
+  );
+
+  const { perDependent, maxDependents } = rules.familyCharges;
+  const countedDependents = Math.min(dependents, maxDependents);
+  const familyCharges = Math.min(countedDependents * perDependent, grossTax);
+  const annualTax = grossTax - familyCharges;
+
+  return {
+    year,
+    financeLaw: rules.financeLaw,
+    period,
+    grossSalary,
+    incomeTax: divideAndRound(annualTax, periods),
+    trace: {
+      grossIncome,
+      professionalExpenses: { rate: expensesRate, cap, amount: expenses },
+      socialContributions: contributions,
+      netTaxableIncome,
+      bracket: { ...bracket },
+      grossTax,
+      familyCharges: {
+        dependents: countedDependents,
+        perDependent,
+        amount: familyCharges,
+      },
+      annualTax,
+    },
+  };
+}
+
+/**
+ * Finds the tier of a scale an amount falls in, the last tier having no
+ * upper bound
+ */
+function findTier<T extends { upTo: number | null }>(
+  tiers: ReadonlyArray<T>,
+  amount: number
+): T {
+  return tiers.find(tier => tier.upTo === null || amount <= tier.upTo) as T;
+}
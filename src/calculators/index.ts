@@ -0,0 +1,111 @@
+/**
+ * Calculator module for tax and payroll computations
+ * @module calculators
+ */
+
+/**
+ * Import TVA calculation utilities
+ */
+import {
+  addVAT,
+  removeVAT,
+  computeInvoiceVAT,
+  computeVATProrata,
+  computeDeductibleVAT,
+  formatVATBreakdown,
+  VATCalculationError,
+} from './vat';
+
+/**
+ * Import IR calculation utilities
+ */
+import {
+  computeIncomeTax,
+  getIncomeTaxRules,
+  IncomeTaxCalculationError,
+} from './income-tax';
+
+/**
+ * Import payroll calculation utilities
+ */
+import {
+  computeNetSalary,
+  computeGrossSalary,
+  getPayrollRates,
+  PayrollCalculationError,
+} from './payroll';
+
+/**
+ * Namespace containing all TVA calculation functions
+ */
+const vat = {
+  add: addVAT,
+  remove: removeVAT,
+  computeInvoice: computeInvoiceVAT,
+  computeProrata: computeVATProrata,
+  computeDeductible: computeDeductibleVAT,
+  formatBreakdown: formatVATBreakdown,
+  CalculationError: VATCalculationError,
+};
+
+/**
+ * Namespace containing all income tax (IR) calculation functions
+ */
+const incomeTax = {
+  compute: computeIncomeTax,
+  getRules: getIncomeTaxRules,
+  CalculationError: IncomeTaxCalculationError,
+};
+
+/**
+ * Namespace containing all payroll calculation functions
+ */
+const payroll = {
+  toNet: computeNetSalary,
+  toGross: computeGrossSalary,
+  getRates: getPayrollRates,
+  CalculationError: PayrollCalculationError,
+};
+
+/**
+ * Collection of all calculator namespaces
+ */
+export const calculators = {
+  vat,
+  incomeTax,
+  payroll,
+};
+
+/**
+ * Default export providing access to all calculator functions
+ * @default
+ */
+export default calculators;
+
+/**
+ * Direct exports of TVA calculation functions and classes for granular imports
+ */
+export {
+  addVAT,
+  removeVAT,
+  computeInvoiceVAT,
+  computeVATProrata,
+  computeDeductibleVAT,
+  formatVATBreakdown,
+  VATCalculationError,
+};
+
+/**
+ * Direct exports of IR calculation functions and classes for granular imports
+ */
+export { computeIncomeTax, getIncomeTaxRules, IncomeTaxCalculationError };
+
+/**
+ * Direct exports of payroll calculation functions and classes for granular imports
+ */
+export {
+  computeNetSalary,
+  computeGrossSalary,
+  getPayrollRates,
+  PayrollCalculationError,
+};
@@ -0,0 +1,229 @@
+import { PAYROLL_RATES } from '../constants/payroll';
+import type {
+  PayrollContributionRate,
+  PayrollContributions,
+  PayrollOptions,
+  PayrollRates,
+  PayrollResult,
+} from '../types/payroll';
+import { computeIncomeTax } from './income-tax';
+import { divideAndRound } from './vat';
+
+export enum PayrollCalculationErrorCode {
+  INVALID_AMOUNT = 'PAYROLL_001',
+  INVALID_DATE = 'PAYROLL_002',
+  UNSUPPORTED_DATE = 'PAYROLL_003',
+}
+
+/**
+ * Custom error class for payroll calculation issues.
+ *
+ * @property {PayrollCalculationErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new PayrollCalculationError(PayrollCalculationErrorCode.UNSUPPORTED_DATE, 'No contribution rates for 2009-05-31', { date: '2009-05-31' });
+ */
+export class PayrollCalculationError extends Error {
+  constructor(
+    public code: PayrollCalculationErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'PayrollCalculationError';
+  }
+}
+
+/**
+ * Returns the contribution rates in force at a date, so that historical
+ * payslips are computed with the rates of their time.
+ *
+ * @param date - The date of the payslip (a Date or a YYYY-MM-DD string)
+ * @returns The contribution rates in force
+ *
+ * @throws {PayrollCalculationError} If the date is invalid or precedes the bundled rates
+ *
+ * @example
+ * getPayrollRates('2025-03-31').cnssCeiling; // 600000 (6 000 DH)
+ */
+export function getPayrollRates(date: Date | string): PayrollRates {
+  const day = toISODate(date);
+  const rates = [...PAYROLL_RATES]
+    .reverse()
+    .find(entry => entry.effectiveFrom <= day);
+
+  if (!rates) {
+    throw new PayrollCalculationError(
+      PayrollCalculationErrorCode.UNSUPPORTED_DATE,
+      `No contribution rates for ${day}: rates start on ${PAYROLL_RATES[0].effectiveFrom}`,
+      { date: day }
+    );
+  }
+
+  return rates;
+}
+
+/**
+ * Computes a monthly payslip from the gross salary: the CNSS contributions
+ * (short-term benefits up to the CNSS ceiling, family allowances), AMO, the
+ * taxe de formation professionnelle, and the IR, computed on the salary net
+ * of the employee contributions. Amounts are in centimes and each
+ * contribution is rounded half away from zero.
+ *
+ * @param grossSalary - The gross monthly salary, in centimes
+ * @param options - Payslip options:
+ *   - `date`: Date of the payslip, which selects the rates (default: today).
+ *   - `dependents`: Number of dependents for IR (default: 0).
+ *
+ * @returns The payslip, with the contributions, the IR trace and the net salary
+ *
+ * @throws {PayrollCalculationError} If the salary or the date is invalid
+ * @throws {IncomeTaxCalculationError} If the dependents are invalid
+ *
+ * @example
+ * const payslip = computeNetSalary(1000000, { date: '2025-03-31', dependents: 2 });
+ * payslip.employee.total; // 49480 (CNSS 268,80 DH + AMO 226,00 DH)
+ * payslip.incomeTax.incomeTax; // 51823
+ * payslip.netSalary; // 898697 (8 986,97 DH)
+ * payslip.employerCost; // 1174980 (11 749,80 DH)
+ */
+export function computeNetSalary(
+  grossSalary: number,
+  options: PayrollOptions = {}
+): PayrollResult {
+  assertAmount(grossSalary);
+
+  const date = toISODate(options.date ?? new Date());
+  const rates = getPayrollRates(date);
+  const employee = computeContributions(grossSalary, rates.employee, rates);
+  const employer = computeContributions(grossSalary, rates.employer, rates);
+  const incomeTax = computeIncomeTax(grossSalary, {
+    year: Number(date.slice(0, 4)),
+    dependents: options.dependents,
+    socialContributions: employee.total,
+  });
+
+  return {
+    date,
+    ratesEffectiveFrom: rates.effectiveFrom,
+    grossSalary,
+    employee,
+    employer,
+    incomeTax,
+    netSalary: grossSalary - employee.total - incomeTax.incomeTax,
+    employerCost: grossSalary + employer.total,
+  };
+}
+
+/**
+ * Computes a monthly payslip from the net salary, by finding the lowest gross
+ * salary whose net salary reaches it. Rounding may make some net salaries
+ * unreachable by a centime, in which case the net salary of the payslip is
+ * the closest one above.
+ *
+ * @param netSalary - The net monthly salary, in centimes
+ * @param options - Payslip options, as for {@link computeNetSalary}
+ * @returns The payslip of the gross salary found
+ *
+ * @throws {PayrollCalculationError} If the salary or the date is invalid
+ * @throws {IncomeTaxCalculationError} If the dependents are invalid
+ *
+ * @example
+ * computeGrossSalary(898697, { date: '2025-03-31', dependents: 2 }).grossSalary;
+ * // 999999: 9 999,99 DH gross gives the same net salary as 10 000 DH
+ */
+export function computeGrossSalary(
+  netSalary: number,
+  options: PayrollOptions = {}
+): PayrollResult {
+  assertAmount(netSalary);
+
+  const payslipOptions = {
+    ...options,
+    date: toISODate(options.date ?? new Date()),
+  };
+
+  // The net salary grows with the gross salary and is more than a third of it
+  let low = netSalary;
+  let high = netSalary * 3 + 100;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (computeNetSalary(middle, payslipOptions).netSalary < netSalary) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return computeNetSalary(low, payslipOptions);
+}
+
+function computeContributions(
+  grossSalary: number,
+  contributionRates: PayrollContributionRate[],
+  rates: PayrollRates
+): PayrollContributions {
+  const contributions = contributionRates.map(({ name, rate, capped }) => {
+    const base = capped
+      ? Math.min(grossSalary, rates.cnssCeiling)
+      : grossSalary;
+    return { name, base, rate, amount: divideAndRound(base * rate, 10000) };
+  });
+
+  return {
+    contributions,
+    total: contributions.reduce((sum, { amount }) => sum + amount, 0),
+  };
+}
+
+/**
+ * Converts a date to YYYY-MM-DD, keeping strings in that format as they are
+ * so that they do not shift with the time zone
+ */
+function toISODate(date: Date | string): string {
+  const day =
+    typeof date === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(date) : null;
+  if (day) {
+    const [, year, month, dayOfMonth] = day.map(Number);
+    const utc = new Date(Date.UTC(year, month - 1, dayOfMonth));
+    if (utc.getUTCMonth() === month - 1 && utc.getUTCDate() === dayOfMonth) {
+      return date as string;
+    }
+  }
+
+  const parsed =
+    date instanceof Date
+      ? date
+      : typeof date === 'string' && !day
+        ? new Date(date)
+        : null;
+  if (!parsed || isNaN(parsed.getTime())) {
+    throw new PayrollCalculationError(
+      PayrollCalculationErrorCode.INVALID_DATE,
+      'Date must be a valid Date or a YYYY-MM-DD string',
+      { date }
+    );
+  }
+
+  return [
+    parsed.getFullYear(),
+    String(parsed.getMonth() + 1).padStart(2, '0'),
+    String(parsed.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+function assertAmount(amount: unknown): asserts amount is number {
+  if (
+    typeof amount !== 'number' ||
+    !Number.isSafeInteger(amount) ||
+    amount < 0
+  ) {
+    throw new PayrollCalculationError(
+      PayrollCalculationErrorCode.INVALID_AMOUNT,
+      'Salary must be a non-negative integer number of centimes',
+      { amount }
+    );
+  }
+}
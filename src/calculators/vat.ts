@@ -0,0 +1,346 @@
+import { VAT_RATES } from '../constants/tax';
+import { formatMAD } from '../formatters/currency';
+import type { MADFormatOptions } from '../types/currency';
+import type {
+  FormattedVATAmounts,
+  FormattedVATBreakdown,
+  VATAmounts,
+  VATBreakdown,
+  VATDeduction,
+  VATInvoiceOptions,
+  VATLine,
+  VATRate,
+} from '../types/vat';
+
+export enum VATCalculationErrorCode {
+  INVALID_AMOUNT = 'VAT_001',
+  INVALID_RATE = 'VAT_002',
+  INVALID_QUANTITY = 'VAT_003',
+  INVALID_OPTIONS = 'VAT_004',
+  INVALID_TURNOVER = 'VAT_005',
+}
+
+/**
+ * Custom error class for TVA calculation issues.
+ *
+ * @property {VATCalculationErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new VATCalculationError(VATCalculationErrorCode.INVALID_RATE, 'TVA rate must be one of 20, 14, 10, 7, 0', { rate: 19 });
+ */
+export class VATCalculationError extends Error {
+  constructor(
+    public code: VATCalculationErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'VATCalculationError';
+  }
+}
+
+/**
+ * Computes the TVA and the amount including tax (TTC) of an amount excluding
+ * tax (HT). TVA is rounded half away from zero to the centime.
+ *
+ * @param exclTax - The amount excluding tax, in centimes
+ * @param rate - The TVA rate in percent (20, 14, 10, 7, or 0 if exempt)
+ * @returns The amounts of the operation, in centimes
+ *
+ * @throws {VATCalculationError} If the amount or the rate is invalid
+ *
+ * @example
+ * addVAT(100000, 20); // { rate: 20, exclTax: 100000, vat: 20000, inclTax: 120000 }
+ * addVAT(1999, 7); // { rate: 7, exclTax: 1999, vat: 140, inclTax: 2139 }
+ */
+export function addVAT(exclTax: number, rate: VATRate): VATAmounts {
+  assertAmount(exclTax);
+  assertRate(rate);
+
+  const vat = divideAndRound(exclTax * rate, 100);
+  return { rate, exclTax, vat, inclTax: exclTax + vat };
+}
+
+/**
+ * Computes the amount excluding tax (HT) and the TVA of an amount including
+ * tax (TTC). The amount excluding tax is rounded half away from zero to the
+ * centime, and the TVA is the difference, so that the amounts add up.
+ *
+ * @param inclTax - The amount including tax, in centimes
+ * @param rate - The TVA rate in percent (20, 14, 10, 7, or 0 if exempt)
+ * @returns The amounts of the operation, in centimes
+ *
+ * @throws {VATCalculationError} If the amount or the rate is invalid
+ *
+ * @example
+ * removeVAT(120000, 20); // { rate: 20, exclTax: 100000, vat: 20000, inclTax: 120000 }
+ * removeVAT(1000, 14); // { rate: 14, exclTax: 877, vat: 123, inclTax: 1000 }
+ */
+export function removeVAT(inclTax: number, rate: VATRate): VATAmounts {
+  assertAmount(inclTax);
+  assertRate(rate);
+
+  const exclTax = divideAndRound(inclTax * 100, 100 + rate);
+  return { rate, exclTax, vat: inclTax - exclTax, inclTax };
+}
+
+/**
+ * Computes the TVA of an invoice, broken down by rate.
+ *
+ * With `rounding: 'line'`, the TVA of each line is rounded then added up;
+ * with `rounding: 'invoice'`, the lines of each rate are added up and the TVA
+ * is computed once on their total. Both are accepted by the DGI but may
+ * differ by a few centimes, so the invoice must follow the same rule as the
+ * accounting software. Line amounts (unit price × quantity) are rounded to
+ * the centime in both cases.
+ *
+ * @param lines - The lines of the invoice, with unit prices in centimes
+ * @param options - Calculation options:
+ *   - `rounding`: 'line' or 'invoice' (default: 'invoice').
+ *   - `prices`: Whether unit prices are 'exclTax' (default) or 'inclTax'.
+ *
+ * @returns The totals by rate, from the highest rate, and of the invoice
+ *
+ * @throws {VATCalculationError} If a line or the options are invalid
+ *
+ * @example
+ * computeInvoiceVAT([
+ *   { unitPrice: 1999, quantity: 3, rate: 20 },
+ *   { unitPrice: 5000, rate: 7 },
+ * ]);
+ * // Returns {
+ * //   byRate: [
+ * //     { rate: 20, exclTax: 5997, vat: 1199, inclTax: 7196 },
+ * //     { rate: 7, exclTax: 5000, vat: 350, inclTax: 5350 }
+ * //   ],
+ * //   exclTax: 10997,
+ * //   vat: 1549,
+ * //   inclTax: 12546
+ * // }
+ */
+export function computeInvoiceVAT(
+  lines: VATLine[],
+  options: VATInvoiceOptions = {}
+): VATBreakdown {
+  const { rounding = 'invoice', prices = 'exclTax' } = options;
+  if (rounding !== 'line' && rounding !== 'invoice') {
+    throw new VATCalculationError(
+      VATCalculationErrorCode.INVALID_OPTIONS,
+      "Rounding must be 'line' or 'invoice'",
+      { rounding }
+    );
+  }
+  if (prices !== 'exclTax' && prices !== 'inclTax') {
+    throw new VATCalculationError(
+      VATCalculationErrorCode.INVALID_OPTIONS,
+      "Prices must be 'exclTax' or 'inclTax'",
+      { prices }
+    );
+  }
+  if (!Array.isArray(lines)) {
+    throw new VATCalculationError(
+      VATCalculationErrorCode.INVALID_AMOUNT,
+      'Lines must be an array',
+      { providedType: typeof lines }
+    );
+  }
+
+  const compute = prices === 'exclTax' ? addVAT : removeVAT;
+  const totals = new Map<VATRate, VATAmounts>();
+
+  lines.forEach((line, index) => {
+    const { unitPrice, quantity = 1, rate } = line ?? ({} as VATLine);
+    assertAmount(unitPrice, { line: index });
+    assertRate(rate, { line: index });
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity)) {
+      throw new VATCalculationError(
+        VATCalculationErrorCode.INVALID_QUANTITY,
+        'Quantity must be a finite number',
+        { line: index, quantity }
+      );
+    }
+
+    // Rounding through toPrecision avoids 1999 * 1.1 = 2198.8999...
+    const amount = roundHalfAwayFromZero(
+      Number((unitPrice * quantity).toPrecision(15))
+    );
+    const total = totals.get(rate) ?? { rate, exclTax: 0, vat: 0, inclTax: 0 };
+    const lineAmounts =
+      rounding === 'line'
+        ? compute(amount, rate)
+        : prices === 'exclTax'
+          ? { exclTax: amount, vat: 0, inclTax: 0 }
+          : { exclTax: 0, vat: 0, inclTax: amount };
+
+    totals.set(rate, {
+      rate,
+      exclTax: total.exclTax + lineAmounts.exclTax,
+      vat: total.vat + lineAmounts.vat,
+      inclTax: total.inclTax + lineAmounts.inclTax,
+    });
+  });
+
+  const byRate = VAT_RATES.filter(rate => totals.has(rate)).map(rate => {
+    const total = totals.get(rate) as VATAmounts;
+    if (rounding === 'line') {
+      return total;
+    }
+    return compute(prices === 'exclTax' ? total.exclTax : total.inclTax, rate);
+  });
+
+  return {
+    byRate,
+    exclTax: byRate.reduce((sum, total) => sum + total.exclTax, 0),
+    vat: byRate.reduce((sum, total) => sum + total.vat, 0),
+    inclTax: byRate.reduce((sum, total) => sum + total.inclTax, 0),
+  };
+}
+
+/**
+ * Computes the deduction prorata of a business carrying out both taxable
+ * operations and exempt operations without right to deduction: taxable
+ * turnover (including exempt operations with right to deduction, such as
+ * exports) over total turnover, rounded up to the next whole percent.
+ *
+ * @param taxableTurnover - Turnover giving right to deduction, in centimes
+ * @param totalTurnover - Total turnover, in centimes
+ * @returns The prorata in percent, from 0 to 100
+ *
+ * @throws {VATCalculationError} If the turnovers are invalid
+ *
+ * @example
+ * computeVATProrata(6543200, 10000000); // 66
+ */
+export function computeVATProrata(
+  taxableTurnover: number,
+  totalTurnover: number
+): number {
+  if (
+    !Number.isSafeInteger(taxableTurnover) ||
+    !Number.isSafeInteger(totalTurnover) ||
+    taxableTurnover < 0 ||
+    totalTurnover <= 0 ||
+    taxableTurnover > totalTurnover
+  ) {
+    throw new VATCalculationError(
+      VATCalculationErrorCode.INVALID_TURNOVER,
+      'Turnovers must be integer amounts in centimes, with a positive total not below the taxable turnover',
+      { taxableTurnover, totalTurnover }
+    );
+  }
+
+  return Math.ceil((taxableTurnover * 100) / totalTurnover);
+}
+
+/**
+ * Splits the TVA paid on purchases into its deductible and non-deductible
+ * parts under the prorata rule.
+ *
+ * @param vat - TVA paid on purchases, in centimes
+ * @param taxableTurnover - Turnover giving right to deduction, in centimes
+ * @param totalTurnover - Total turnover, in centimes
+ * @returns The prorata and the deductible and non-deductible TVA, in centimes
+ *
+ * @throws {VATCalculationError} If the amount or the turnovers are invalid
+ *
+ * @example
+ * computeDeductibleVAT(20000, 6543200, 10000000);
+ * // { prorata: 66, deductible: 13200, nonDeductible: 6800 }
+ */
+export function computeDeductibleVAT(
+  vat: number,
+  taxableTurnover: number,
+  totalTurnover: number
+): VATDeduction {
+  assertAmount(vat);
+  const prorata = computeVATProrata(taxableTurnover, totalTurnover);
+  const deductible = divideAndRound(vat * prorata, 100);
+
+  return { prorata, deductible, nonDeductible: vat - deductible };
+}
+
+/**
+ * Formats the amounts of a TVA breakdown for display with {@link formatMAD}.
+ *
+ * @param breakdown - Amounts in centimes, as returned by {@link computeInvoiceVAT}
+ * @param options - Formatting options of {@link formatMAD}
+ * @returns The same breakdown with formatted amounts
+ *
+ * @throws {CurrencyFormattingError} If the options are invalid
+ *
+ * @example
+ * formatVATBreakdown(computeInvoiceVAT([{ unitPrice: 123456, rate: 20 }]));
+ * // {
+ * //   byRate: [{ rate: 20, exclTax: '1 234,56 DH', vat: '246,91 DH', inclTax: '1 481,47 DH' }],
+ * //   exclTax: '1 234,56 DH',
+ * //   vat: '246,91 DH',
+ * //   inclTax: '1 481,47 DH'
+ * // }
+ */
+export function formatVATBreakdown(
+  breakdown: VATBreakdown,
+  options: MADFormatOptions = {}
+): FormattedVATBreakdown {
+  const format = (centimes: number) => formatMAD(centimes / 100, options);
+  const formatAmounts = ({
+    rate,
+    exclTax,
+    vat,
+    inclTax,
+  }: VATAmounts): FormattedVATAmounts => ({
+    rate,
+    exclTax: format(exclTax),
+    vat: format(vat),
+    inclTax: format(inclTax),
+  });
+
+  return {
+    byRate: breakdown.byRate.map(formatAmounts),
+    exclTax: format(breakdown.exclTax),
+    vat: format(breakdown.vat),
+    inclTax: format(breakdown.inclTax),
+  };
+}
+
+/**
+ * Divides two integers and rounds the quotient half away from zero, without
+ * floating-point errors
+ */
+export function divideAndRound(numerator: number, denominator: number): number {
+  const quotient = Math.floor(
+    (2 * Math.abs(numerator) + denominator) / (2 * denominator)
+  );
+  return numerator < 0 ? -quotient : quotient;
+}
+
+function roundHalfAwayFromZero(value: number): number {
+  return value < 0 ? -Math.round(-value) : Math.round(value);
+}
+
+function assertAmount(
+  amount: unknown,
+  details: Record<string, any> = {}
+): asserts amount is number {
+  if (!Number.isSafeInteger(amount)) {
+    throw new VATCalculationError(
+      VATCalculationErrorCode.INVALID_AMOUNT,
+      'Amount must be an integer number of centimes',
+      { ...details, amount }
+    );
+  }
+}
+
+function assertRate(
+  rate: unknown,
+  details: Record<string, any> = {}
+): asserts rate is VATRate {
+  if (!VAT_RATES.includes(rate as VATRate)) {
+    throw new VATCalculationError(
+      VATCalculationErrorCode.INVALID_RATE,
+      `TVA rate must be one of ${VAT_RATES.join(', ')}`,
+      { ...details, rate }
+    );
+  }
+}
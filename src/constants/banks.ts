@@ -16,6 +16,7 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
     ribLength: 24,
     ibanRegex: /^MA\d{2}007\d{5}\d{14}\d{2}$/,
     ribRegex: /^007\d{21}$/,
+    aliases: ['AWB'],
     branches: [
       {
         code: 'ATI',
@@ -44,8 +45,9 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}011\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}011\d{21}$/,
     ribRegex: /^011\d{21}$/,
+    aliases: ['BP', 'BCP'],
     branches: [
       {
         code: 'BKO',
@@ -124,8 +126,9 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}013\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}013\d{21}$/,
     ribRegex: /^013\d{21}$/,
+    aliases: ['BOA'],
     branches: [
       { code: 'BTI', swift: 'BMCEMAMCBTI', city: 'Casablanca' },
       {
@@ -178,8 +181,9 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}021\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}021\d{21}$/,
     ribRegex: /^021\d{21}$/,
+    aliases: ['CAM'],
     branches: [
       {
         code: 'AAB',
@@ -201,7 +205,7 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}022\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}022\d{21}$/,
     ribRegex: /^022\d{21}$/,
     branches: [
       {
@@ -225,13 +229,14 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
     active: true,
     accountFormat: {
       bankCode: 3,
-      branchCode: 3,
-      accountNumber: 8,
+      branchCode: 5,
+      accountNumber: 14,
       ribKey: 2,
     },
-    ribLength: 16,
-    ibanRegex: /^MA\d{2}045\d{2}\d{16}$/,
-    ribRegex: /^045\d{13}$/,
+    ribLength: 24,
+    ibanRegex: /^MA\d{2}045\d{21}$/,
+    ribRegex: /^045\d{21}$/,
+    aliases: ['ABB'],
   },
   {
     code: '098',
@@ -245,7 +250,7 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}098\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}098\d{21}$/,
     ribRegex: /^098\d{21}$/,
     branches: [
       {
@@ -280,8 +285,9 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}019\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}019\d{21}$/,
     ribRegex: /^019\d{21}$/,
+    aliases: ['SG', 'SGMB'],
     branches: [
       {
         code: 'CMI',
@@ -327,7 +333,7 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}023\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}023\d{21}$/,
     ribRegex: /^023\d{21}$/,
     branches: [
       {
@@ -350,7 +356,7 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}016\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}016\d{21}$/,
     ribRegex: /^016\d{21}$/,
   },
   {
@@ -365,7 +371,7 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}025\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}025\d{21}$/,
     ribRegex: /^025\d{21}$/,
   },
   {
@@ -380,8 +386,9 @@ export const MOROCCAN_BANKS: readonly BankDetails[] = [
       ribKey: 2,
     },
     ribLength: 24,
-    ibanRegex: /^MA\d{2}014\d{2}\d{20}$/,
+    ibanRegex: /^MA\d{2}014\d{21}$/,
     ribRegex: /^014\d{21}$/,
+    aliases: ['CDM'],
     branches: [
       {
         code: '706',
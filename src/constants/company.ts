@@ -0,0 +1,84 @@
+import type { CompanyLegalForm } from '../types/company';
+
+/**
+ * Lengths of an identifiant fiscal (IF): older identifiers have 7 digits,
+ * current ones 8
+ */
+export const IF_MIN_LENGTH = 7;
+export const IF_MAX_LENGTH = 8;
+
+/**
+ * Length of a taxe professionnelle (patente) number
+ */
+export const TP_LENGTH = 8;
+
+/**
+ * Lengths of CNSS numbers: employer affiliation numbers have 7 digits,
+ * employee immatriculation numbers 9
+ */
+export const CNSS_LENGTHS = {
+  affiliation: 7,
+  immatriculation: 9,
+} as const;
+
+/**
+ * Legal forms of Moroccan businesses, with the abbreviations and names they
+ * are written with, and whether they must be registered at the registre de
+ * commerce (auto-entrepreneurs are registered at the Registre National de
+ * l'Auto-Entrepreneur instead)
+ */
+export const COMPANY_LEGAL_FORMS: Record<
+  CompanyLegalForm,
+  { name: string; aliases: string[]; requiresRC: boolean }
+> = {
+  SA: {
+    name: 'Société anonyme',
+    aliases: ['societe anonyme'],
+    requiresRC: true,
+  },
+  SAS: {
+    name: 'Société par actions simplifiée',
+    aliases: ['societe par actions simplifiee'],
+    requiresRC: true,
+  },
+  SARL: {
+    name: 'Société à responsabilité limitée',
+    aliases: ['societe a responsabilite limitee'],
+    requiresRC: true,
+  },
+  SARLAU: {
+    name: 'Société à responsabilité limitée à associé unique',
+    aliases: ['sarl au', 'societe a responsabilite limitee a associe unique'],
+    requiresRC: true,
+  },
+  SNC: {
+    name: 'Société en nom collectif',
+    aliases: ['societe en nom collectif'],
+    requiresRC: true,
+  },
+  SCS: {
+    name: 'Société en commandite simple',
+    aliases: ['societe en commandite simple'],
+    requiresRC: true,
+  },
+  SCA: {
+    name: 'Société en commandite par actions',
+    aliases: ['societe en commandite par actions'],
+    requiresRC: true,
+  },
+  GIE: {
+    name: "Groupement d'intérêt économique",
+    aliases: ["groupement d'interet economique"],
+    requiresRC: true,
+  },
+  EI: {
+    name: 'Entreprise individuelle',
+    aliases: ['entreprise individuelle', 'personne physique'],
+    requiresRC: true,
+  },
+  AE: {
+    name: 'Auto-entrepreneur',
+    aliases: ['auto entrepreneur', 'autoentrepreneur'],
+    requiresRC: false,
+  },
+};
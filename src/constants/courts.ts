@@ -0,0 +1,68 @@
+import type { CommercialCourt } from '../types/company';
+
+/**
+ * Courts keeping a registre de commerce: the commercial courts, and the courts
+ * of first instance which keep the registry in cities without one
+ */
+export const COMMERCIAL_COURTS: CommercialCourt[] = [
+  // Tribunaux de commerce
+  {
+    city: 'Casablanca',
+    type: 'commercial',
+    aliases: ['Casa', 'Dar El Beida', 'الدار البيضاء'],
+  },
+  { city: 'Rabat', type: 'commercial', aliases: ['الرباط'] },
+  { city: 'Fès', type: 'commercial', aliases: ['Fez', 'فاس'] },
+  { city: 'Marrakech', type: 'commercial', aliases: ['Marrakesh', 'مراكش'] },
+  { city: 'Agadir', type: 'commercial', aliases: ['أكادير', 'اكادير'] },
+  { city: 'Tanger', type: 'commercial', aliases: ['Tangier', 'طنجة'] },
+  { city: 'Meknès', type: 'commercial', aliases: ['مكناس'] },
+  { city: 'Oujda', type: 'commercial', aliases: ['وجدة'] },
+
+  // Tribunaux de première instance
+  { city: 'Kénitra', type: 'first-instance', aliases: ['القنيطرة'] },
+  { city: 'Salé', type: 'first-instance', aliases: ['سلا'] },
+  { city: 'Témara', type: 'first-instance', aliases: ['تمارة'] },
+  { city: 'Mohammedia', type: 'first-instance', aliases: ['المحمدية'] },
+  {
+    city: 'El Jadida',
+    type: 'first-instance',
+    aliases: ['Jadida', 'الجديدة'],
+  },
+  { city: 'Settat', type: 'first-instance', aliases: ['سطات'] },
+  { city: 'Berrechid', type: 'first-instance', aliases: ['برشيد'] },
+  { city: 'Safi', type: 'first-instance', aliases: ['آسفي', 'اسفي'] },
+  { city: 'Essaouira', type: 'first-instance', aliases: ['الصويرة'] },
+  {
+    city: 'Béni Mellal',
+    type: 'first-instance',
+    aliases: ['Beni-Mellal', 'بني ملال'],
+  },
+  { city: 'Khouribga', type: 'first-instance', aliases: ['خريبكة'] },
+  { city: 'Tétouan', type: 'first-instance', aliases: ['Tetuan', 'تطوان'] },
+  { city: 'Larache', type: 'first-instance', aliases: ['العرائش'] },
+  { city: 'Nador', type: 'first-instance', aliases: ['الناظور'] },
+  { city: 'Al Hoceima', type: 'first-instance', aliases: ['الحسيمة'] },
+  { city: 'Taza', type: 'first-instance', aliases: ['تازة'] },
+  { city: 'Khémisset', type: 'first-instance', aliases: ['الخميسات'] },
+  { city: 'Errachidia', type: 'first-instance', aliases: ['الرشيدية'] },
+  { city: 'Ouarzazate', type: 'first-instance', aliases: ['ورزازات'] },
+  {
+    city: 'Inezgane',
+    type: 'first-instance',
+    aliases: ['Inzegane', 'إنزكان', 'انزكان'],
+  },
+  { city: 'Taroudant', type: 'first-instance', aliases: ['تارودانت'] },
+  { city: 'Guelmim', type: 'first-instance', aliases: ['كلميم'] },
+  {
+    city: 'Laâyoune',
+    type: 'first-instance',
+    aliases: ['Laayoune', 'Layoune', 'العيون'],
+  },
+  { city: 'Dakhla', type: 'first-instance', aliases: ['الداخلة'] },
+];
+
+/**
+ * Maximum number of digits of an RC number
+ */
+export const RC_NUMBER_MAX_LENGTH = 7;
@@ -0,0 +1,550 @@
+import type {
+  AmountWord,
+  ArabicNounForms,
+  ColloquialWord,
+  MADUnit,
+} from '../types/currency';
+
+/**
+ * Largest absolute amount that can be written in words (just under a trillion)
+ */
+export const MAX_AMOUNT_IN_WORDS = 999_999_999_999.99;
+
+/**
+ * Separators used to write amounts in figures in each locale. Digits and
+ * symbol are separated by a narrow no-break space (U+202F).
+ */
+export const MAD_NUMBER_SEPARATORS = {
+  'fr-MA': { group: '\u202f', decimal: ',', symbol: '\u202f' },
+  'ar-MA': { group: '.', decimal: ',', symbol: '\u202f' },
+} as const;
+
+export const MAD_DEFAULT_SYMBOLS = {
+  'fr-MA': 'DH',
+  'ar-MA': 'د.م.',
+} as const;
+
+/**
+ * Matches text written in Arabic script
+ */
+export const ARABIC_SCRIPT = /[\u0600-\u06ff]/;
+
+/**
+ * French number words
+ */
+export const FRENCH_UNITS = [
+  '',
+  'un',
+  'deux',
+  'trois',
+  'quatre',
+  'cinq',
+  'six',
+  'sept',
+  'huit',
+  'neuf',
+];
+
+export const FRENCH_TEENS = [
+  'dix',
+  'onze',
+  'douze',
+  'treize',
+  'quatorze',
+  'quinze',
+  'seize',
+  'dix-sept',
+  'dix-huit',
+  'dix-neuf',
+];
+
+export const FRENCH_TENS = [
+  '',
+  'dix',
+  'vingt',
+  'trente',
+  'quarante',
+  'cinquante',
+  'soixante',
+  'soixante-dix',
+  'quatre-vingt',
+  'quatre-vingt-dix',
+];
+
+/**
+ * French scales, from the largest to the smallest. Million and milliard are
+ * nouns: they take a plural and are never hyphenated; mille is invariable.
+ */
+export const FRENCH_SCALES: ReadonlyArray<{
+  value: number;
+  singular: string;
+  plural: string;
+  isNoun: boolean;
+}> = [
+  {
+    value: 1_000_000_000,
+    singular: 'milliard',
+    plural: 'milliards',
+    isNoun: true,
+  },
+  { value: 1_000_000, singular: 'million', plural: 'millions', isNoun: true },
+  { value: 1_000, singular: 'mille', plural: 'mille', isNoun: false },
+];
+
+/**
+ * Arabic number words, in the forms used with a masculine counted noun
+ * such as درهم or سنتيم
+ */
+export const ARABIC_UNITS = [
+  '',
+  'واحد',
+  'اثنان',
+  'ثلاثة',
+  'أربعة',
+  'خمسة',
+  'ستة',
+  'سبعة',
+  'ثمانية',
+  'تسعة',
+];
+
+export const ARABIC_TEENS = [
+  'عشرة',
+  'أحد عشر',
+  'اثنا عشر',
+  'ثلاثة عشر',
+  'أربعة عشر',
+  'خمسة عشر',
+  'ستة عشر',
+  'سبعة عشر',
+  'ثمانية عشر',
+  'تسعة عشر',
+];
+
+export const ARABIC_TENS = [
+  '',
+  'عشرة',
+  'عشرون',
+  'ثلاثون',
+  'أربعون',
+  'خمسون',
+  'ستون',
+  'سبعون',
+  'ثمانون',
+  'تسعون',
+];
+
+export const ARABIC_HUNDREDS = [
+  '',
+  'مائة',
+  'مائتان',
+  'ثلاثمائة',
+  'أربعمائة',
+  'خمسمائة',
+  'ستمائة',
+  'سبعمائة',
+  'ثمانمائة',
+  'تسعمائة',
+];
+
+/**
+ * Construct form of مائتان, used when it is directly followed by a noun
+ */
+export const ARABIC_TWO_HUNDRED_CONSTRUCT = 'مائتا';
+
+/**
+ * Arabic scales, from the largest to the smallest. `dualConstruct` is the dual
+ * used when the scale is directly followed by the counted noun (ألفا درهم).
+ */
+export const ARABIC_SCALES: ReadonlyArray<{
+  value: number;
+  forms: ArabicNounForms;
+  dualConstruct: string;
+}> = [
+  {
+    value: 1_000_000_000,
+    forms: {
+      singular: 'مليار',
+      dual: 'ملياران',
+      plural: 'مليارات',
+      accusative: 'مليارا',
+    },
+    dualConstruct: 'مليارا',
+  },
+  {
+    value: 1_000_000,
+    forms: {
+      singular: 'مليون',
+      dual: 'مليونان',
+      plural: 'ملايين',
+      accusative: 'مليونا',
+    },
+    dualConstruct: 'مليونا',
+  },
+  {
+    value: 1_000,
+    forms: {
+      singular: 'ألف',
+      dual: 'ألفان',
+      plural: 'آلاف',
+      accusative: 'ألفا',
+    },
+    dualConstruct: 'ألفا',
+  },
+];
+
+export const ARABIC_DIRHAM: ArabicNounForms = {
+  singular: 'درهم',
+  dual: 'درهمان',
+  plural: 'دراهم',
+  accusative: 'درهما',
+};
+
+export const ARABIC_CENTIME: ArabicNounForms = {
+  singular: 'سنتيم',
+  dual: 'سنتيمان',
+  plural: 'سنتيمات',
+  accusative: 'سنتيما',
+};
+
+const number = (value: number): AmountWord => ({ kind: 'number', value });
+const HUNDRED: AmountWord = { kind: 'hundred' };
+const FILLER: AmountWord = { kind: 'filler' };
+const NEGATIVE: AmountWord = { kind: 'negative' };
+const DIRHAM: AmountWord = { kind: 'unit', unit: 'dirham' };
+const CENTIME: AmountWord = { kind: 'unit', unit: 'centime' };
+
+/**
+ * French words understood when reading an amount, without accents. Compound
+ * numbers are read word by word (dix-sept is dix + sept, quatre-vingts is
+ * handled by the parser).
+ */
+export const FRENCH_AMOUNT_WORDS: Readonly<Record<string, AmountWord>> = {
+  zero: number(0),
+  un: number(1),
+  une: number(1),
+  deux: number(2),
+  trois: number(3),
+  quatre: number(4),
+  cinq: number(5),
+  six: number(6),
+  sept: number(7),
+  huit: number(8),
+  neuf: number(9),
+  dix: number(10),
+  onze: number(11),
+  douze: number(12),
+  treize: number(13),
+  quatorze: number(14),
+  quinze: number(15),
+  seize: number(16),
+  vingt: number(20),
+  vingts: number(20),
+  trente: number(30),
+  quarante: number(40),
+  cinquante: number(50),
+  soixante: number(60),
+  septante: number(70),
+  huitante: number(80),
+  octante: number(80),
+  nonante: number(90),
+  cent: HUNDRED,
+  cents: HUNDRED,
+  mil: { kind: 'scale', value: 1_000 },
+  mille: { kind: 'scale', value: 1_000 },
+  million: { kind: 'scale', value: 1_000_000 },
+  millions: { kind: 'scale', value: 1_000_000 },
+  milliard: { kind: 'scale', value: 1_000_000_000 },
+  milliards: { kind: 'scale', value: 1_000_000_000 },
+  dirham: DIRHAM,
+  dirhams: DIRHAM,
+  dh: DIRHAM,
+  dhs: DIRHAM,
+  mad: DIRHAM,
+  centime: CENTIME,
+  centimes: CENTIME,
+  ct: CENTIME,
+  cts: CENTIME,
+  moins: NEGATIVE,
+  et: FILLER,
+  de: FILLER,
+  d: FILLER,
+  seulement: FILLER,
+};
+
+/**
+ * Arabic words understood when reading an amount, normalized without
+ * diacritics, with bare alefs, ه for ة and ي for ى
+ */
+export const ARABIC_AMOUNT_WORDS: Readonly<Record<string, AmountWord>> = {
+  صفر: number(0),
+  واحد: number(1),
+  واحده: number(1),
+  احد: number(1),
+  احدي: number(1),
+  اثنان: number(2),
+  اثنين: number(2),
+  اثنا: number(2),
+  اثني: number(2),
+  ثلاثه: number(3),
+  ثلاث: number(3),
+  اربعه: number(4),
+  اربع: number(4),
+  خمسه: number(5),
+  خمس: number(5),
+  سته: number(6),
+  ست: number(6),
+  سبعه: number(7),
+  سبع: number(7),
+  ثمانيه: number(8),
+  ثماني: number(8),
+  ثمان: number(8),
+  تسعه: number(9),
+  تسع: number(9),
+  عشره: number(10),
+  عشر: number(10),
+  عشرون: number(20),
+  عشرين: number(20),
+  ثلاثون: number(30),
+  ثلاثين: number(30),
+  اربعون: number(40),
+  اربعين: number(40),
+  خمسون: number(50),
+  خمسين: number(50),
+  ستون: number(60),
+  ستين: number(60),
+  سبعون: number(70),
+  سبعين: number(70),
+  ثمانون: number(80),
+  ثمانين: number(80),
+  تسعون: number(90),
+  تسعين: number(90),
+  مائه: HUNDRED,
+  مائتان: number(200),
+  مائتا: number(200),
+  مائتين: number(200),
+  ثلاثمائه: number(300),
+  اربعمائه: number(400),
+  خمسمائه: number(500),
+  ستمائه: number(600),
+  سبعمائه: number(700),
+  ثمانمائه: number(800),
+  ثمانيمائه: number(800),
+  تسعمائه: number(900),
+  الف: { kind: 'scale', value: 1_000 },
+  الفا: { kind: 'scale', value: 1_000, dualWhenAlone: true },
+  الفان: { kind: 'scale', value: 1_000, count: 2 },
+  الفين: { kind: 'scale', value: 1_000, count: 2 },
+  الاف: { kind: 'scale', value: 1_000 },
+  مليون: { kind: 'scale', value: 1_000_000 },
+  مليونا: { kind: 'scale', value: 1_000_000, dualWhenAlone: true },
+  مليونان: { kind: 'scale', value: 1_000_000, count: 2 },
+  مليونين: { kind: 'scale', value: 1_000_000, count: 2 },
+  ملايين: { kind: 'scale', value: 1_000_000 },
+  مليار: { kind: 'scale', value: 1_000_000_000 },
+  مليارا: { kind: 'scale', value: 1_000_000_000, dualWhenAlone: true },
+  ملياران: { kind: 'scale', value: 1_000_000_000, count: 2 },
+  مليارين: { kind: 'scale', value: 1_000_000_000, count: 2 },
+  مليارات: { kind: 'scale', value: 1_000_000_000 },
+  درهم: DIRHAM,
+  درهما: DIRHAM,
+  دراهم: DIRHAM,
+  درهمان: { kind: 'unit', unit: 'dirham', count: 2 },
+  درهمين: { kind: 'unit', unit: 'dirham', count: 2 },
+  سنتيم: CENTIME,
+  سنتيما: CENTIME,
+  سنتيمات: CENTIME,
+  سنتيمان: { kind: 'unit', unit: 'centime', count: 2 },
+  سنتيمين: { kind: 'unit', unit: 'centime', count: 2 },
+  ناقص: NEGATIVE,
+  سالب: NEGATIVE,
+  و: FILLER,
+  فقط: FILLER,
+  لا: FILLER,
+  غير: FILLER,
+};
+
+/**
+ * Value of each unit in centimes
+ */
+export const MAD_UNIT_CENTIMES: Readonly<Record<MADUnit, number>> = {
+  dirham: 100,
+  rial: 5,
+  centime: 1,
+};
+
+const colloquial = (
+  words: string[],
+  meaning: ColloquialWord
+): Array<[string, ColloquialWord]> => words.map(word => [word, meaning]);
+
+/**
+ * Darija (in Latin letters and Arabic script) and French words understood in
+ * colloquial amounts, without accents. Arabic words use bare alefs and ه for ة.
+ */
+export const COLLOQUIAL_AMOUNT_WORDS: ReadonlyMap<string, ColloquialWord> =
+  new Map([
+    ...colloquial(['wahed', 'wa7ed', 'wahd', 'wa7d', 'un', 'une', 'واحد'], {
+      kind: 'number',
+      value: 1,
+    }),
+    ...colloquial(['jouj', 'jooj', 'jwj', 'zouj', 'zoj', 'deux', 'جوج'], {
+      kind: 'number',
+      value: 2,
+    }),
+    ...colloquial(['tlata', 'tleta', 'tlta', 'tlat', 'trois', 'ثلاثه'], {
+      kind: 'number',
+      value: 3,
+    }),
+    ...colloquial(['rb3a', 'reb3a', 'rebaa', 'arb3a', 'quatre', 'ربعه'], {
+      kind: 'number',
+      value: 4,
+    }),
+    ...colloquial(['khamsa', 'khmsa', '5msa', 'khams', 'cinq', 'خمسه'], {
+      kind: 'number',
+      value: 5,
+    }),
+    ...colloquial(['stta', 'setta', 'sta', 'six', 'سته'], {
+      kind: 'number',
+      value: 6,
+    }),
+    ...colloquial(['sb3a', 'seb3a', 'sebaa', 'sept', 'سبعه'], {
+      kind: 'number',
+      value: 7,
+    }),
+    ...colloquial(['tmnya', 'tmenya', 'tmanya', 'huit', 'تمنيه'], {
+      kind: 'number',
+      value: 8,
+    }),
+    ...colloquial(['ts3od', 'tes3od', 'ts3oud', 'tes3a', 'ts3a', 'neuf'], {
+      kind: 'number',
+      value: 9,
+    }),
+    ...colloquial(['3achra', '3ashra', 'achra', 'ashra', 'dix', 'عشره'], {
+      kind: 'number',
+      value: 10,
+    }),
+    ...colloquial(
+      ['3ichrin', '3ishrin', '3achrin', 'achrin', 'vingt', 'عشرين'],
+      {
+        kind: 'number',
+        value: 20,
+      }
+    ),
+    ...colloquial(['tlatin', 'tletin', 'trente'], {
+      kind: 'number',
+      value: 30,
+    }),
+    ...colloquial(['rb3in', 'reb3in', 'quarante'], {
+      kind: 'number',
+      value: 40,
+    }),
+    ...colloquial(['khamsin', 'khmsin', '5msin', 'cinquante'], {
+      kind: 'number',
+      value: 50,
+    }),
+    ...colloquial(['sttin', 'settin', 'soixante'], {
+      kind: 'number',
+      value: 60,
+    }),
+    ...colloquial(['sb3in', 'seb3in'], { kind: 'number', value: 70 }),
+    ...colloquial(['tmanin', 'tmenin'], { kind: 'number', value: 80 }),
+    ...colloquial(['ts3in', 'tes3in'], { kind: 'number', value: 90 }),
+    ...colloquial(['myatayn', 'mitayn', 'mitin', 'متين'], {
+      kind: 'number',
+      value: 200,
+    }),
+    ...colloquial(
+      ['mya', 'mia', 'miya', 'meya', 'myat', 'miyat', 'cent', 'cents', 'ميه'],
+      { kind: 'hundred' }
+    ),
+    ...colloquial(
+      ['alf', 'alef', 'elf', 'alaf', 'alaaf', 'mille', 'mil', 'الف', 'الاف'],
+      { kind: 'scale', value: 1_000 }
+    ),
+    ...colloquial(['alfayn', 'alfin', 'alfine', 'alfain', 'الفين'], {
+      kind: 'scale',
+      value: 1_000,
+      count: 2,
+    }),
+    ...colloquial(
+      [
+        'mlyon',
+        'mlyoun',
+        'mlyun',
+        'mliyon',
+        'melyoun',
+        'million',
+        'millions',
+        'mlayn',
+        'mlayen',
+        'mlayin',
+        'malayin',
+        'مليون',
+        'ملايين',
+      ],
+      { kind: 'scale', value: 1_000_000 }
+    ),
+    ...colloquial(['mlyonayn', 'mlyounayn', 'مليونين'], {
+      kind: 'scale',
+      value: 1_000_000,
+      count: 2,
+    }),
+    ...colloquial(['nss', 'nos', 'nous', 'nouss', 'nsf', 'demi', 'نص', 'نصف'], {
+      kind: 'half',
+    }),
+    ...colloquial(
+      [
+        'ryal',
+        'rial',
+        'riyal',
+        'reyal',
+        'ryals',
+        'rials',
+        'riyals',
+        'ryalat',
+        'rialat',
+        'ريال',
+        'ريالات',
+      ],
+      { kind: 'unit', unit: 'rial' }
+    ),
+    ...colloquial(
+      [
+        'centime',
+        'centimes',
+        'santim',
+        'santime',
+        'sentim',
+        'franc',
+        'francs',
+        'frank',
+        'fran',
+        'ct',
+        'cts',
+        'سنتيم',
+        'سنتيمات',
+        'فرنك',
+      ],
+      { kind: 'unit', unit: 'centime' }
+    ),
+    ...colloquial(
+      [
+        'dh',
+        'dhs',
+        'dirham',
+        'dirhams',
+        'drahem',
+        'drham',
+        'derham',
+        'mad',
+        'درهم',
+        'دراهم',
+      ],
+      { kind: 'unit', unit: 'dirham' }
+    ),
+    ...colloquial(['d', 'de', 'dyal', 'dial', 'w', 'o', 'ou', 'u', 'et'], {
+      kind: 'filler',
+    }),
+    ...colloquial(['و', 'د', 'ديال'], { kind: 'filler' }),
+  ]);
@@ -0,0 +1,24 @@
+/**
+ * Mapping of RIB locality codes to cities
+ *
+ * The locality code is the first 3 digits of the branch code that follows the
+ * bank code in a RIB (e.g. 007 780 00 ... for an Attijariwafa Bank account
+ * opened in Casablanca). City names match the spelling used for branches in
+ * MOROCCAN_BANKS.
+ *
+ * The table only covers the localities of the main banking centres whose
+ * codes are confirmed. Branch cities such as Oujda, Kenitra, Tetouan,
+ * El Jadida, Safi, Nador, Laayoune or Beni Mellal are not decoded yet:
+ * accounts opened there get no city, and their SWIFT is the bank's own.
+ */
+export const RIB_LOCALITIES: { [key: string]: string } = {
+  '010': 'Agadir',
+  '270': 'Fes',
+  '450': 'Marrakech',
+  '480': 'Meknes',
+  '640': 'Tanger',
+  '780': 'Casablanca',
+  '810': 'Rabat',
+};
+
+export const LOCALITY_CODE_LENGTH = 3;
@@ -0,0 +1,40 @@
+import type { PayrollRates } from '../types/payroll';
+
+/**
+ * Contribution rates, from the oldest. Each entry applies from its date until
+ * the next one. Rates are in basis points and the ceiling in centimes.
+ */
+export const PAYROLL_RATES: ReadonlyArray<PayrollRates> = [
+  {
+    // Short-term benefits before the job loss allowance (IPE): 0.33% + 0.67%
+    effectiveFrom: '2010-01-01',
+    cnssCeiling: 600_000,
+    employee: [
+      { name: 'socialBenefits', rate: 429, capped: true },
+      { name: 'amo', rate: 226, capped: false },
+    ],
+    employer: [
+      { name: 'socialBenefits', rate: 860, capped: true },
+      { name: 'familyAllowances', rate: 640, capped: false },
+      { name: 'amo', rate: 226, capped: false },
+      { name: 'amoParticipation', rate: 185, capped: false },
+      { name: 'trainingTax', rate: 160, capped: false },
+    ],
+  },
+  {
+    // IPE contributions of 0.19% + 0.38% added to short-term benefits
+    effectiveFrom: '2014-12-01',
+    cnssCeiling: 600_000,
+    employee: [
+      { name: 'socialBenefits', rate: 448, capped: true },
+      { name: 'amo', rate: 226, capped: false },
+    ],
+    employer: [
+      { name: 'socialBenefits', rate: 898, capped: true },
+      { name: 'familyAllowances', rate: 640, capped: false },
+      { name: 'amo', rate: 226, capped: false },
+      { name: 'amoParticipation', rate: 185, capped: false },
+      { name: 'trainingTax', rate: 160, capped: false },
+    ],
+  },
+];
@@ -0,0 +1,73 @@
+import type { IncomeTaxRules } from '../types/income-tax';
+import type { VATRate } from '../types/vat';
+
+/**
+ * Rates of taxe sur la valeur ajoutée (TVA), in percent. 0 stands for exempt
+ * operations.
+ */
+export const VAT_RATES: ReadonlyArray<VATRate> = [20, 14, 10, 7, 0];
+
+/**
+ * IR rules of the finance laws, from the oldest. Amounts are in centimes per
+ * year. A year without its own rules uses those of the latest earlier year.
+ */
+export const INCOME_TAX_RULES: ReadonlyArray<IncomeTaxRules> = [
+  {
+    year: 2010,
+    financeLaw: 'LF 2010',
+    brackets: [
+      { upTo: 3_000_000, rate: 0, deduction: 0 },
+      { upTo: 5_000_000, rate: 10, deduction: 300_000 },
+      { upTo: 6_000_000, rate: 20, deduction: 800_000 },
+      { upTo: 8_000_000, rate: 30, deduction: 1_400_000 },
+      { upTo: 18_000_000, rate: 34, deduction: 1_720_000 },
+      { upTo: null, rate: 38, deduction: 2_440_000 },
+    ],
+    professionalExpenses: {
+      rates: [{ upTo: null, rate: 20 }],
+      cap: 3_000_000,
+    },
+    familyCharges: { perDependent: 36_000, maxDependents: 6 },
+  },
+  {
+    // Scale unchanged since 2010; professional expenses from LF 2023
+    year: 2023,
+    financeLaw: 'LF 2023',
+    brackets: [
+      { upTo: 3_000_000, rate: 0, deduction: 0 },
+      { upTo: 5_000_000, rate: 10, deduction: 300_000 },
+      { upTo: 6_000_000, rate: 20, deduction: 800_000 },
+      { upTo: 8_000_000, rate: 30, deduction: 1_400_000 },
+      { upTo: 18_000_000, rate: 34, deduction: 1_720_000 },
+      { upTo: null, rate: 38, deduction: 2_440_000 },
+    ],
+    professionalExpenses: {
+      rates: [
+        { upTo: 7_800_000, rate: 35 },
+        { upTo: null, rate: 25 },
+      ],
+      cap: 3_500_000,
+    },
+    familyCharges: { perDependent: 36_000, maxDependents: 6 },
+  },
+  {
+    year: 2025,
+    financeLaw: 'LF 2025',
+    brackets: [
+      { upTo: 4_000_000, rate: 0, deduction: 0 },
+      { upTo: 6_000_000, rate: 10, deduction: 400_000 },
+      { upTo: 8_000_000, rate: 20, deduction: 1_000_000 },
+      { upTo: 10_000_000, rate: 30, deduction: 1_800_000 },
+      { upTo: 18_000_000, rate: 34, deduction: 2_200_000 },
+      { upTo: null, rate: 37, deduction: 2_740_000 },
+    ],
+    professionalExpenses: {
+      rates: [
+        { upTo: 7_800_000, rate: 35 },
+        { upTo: null, rate: 25 },
+      ],
+      cap: 3_500_000,
+    },
+    familyCharges: { perDependent: 50_000, maxDependents: 6 },
+  },
+];
@@ -0,0 +1,71 @@
+import { LOCALITY_CODE_LENGTH, RIB_LOCALITIES } from '../constants/localities';
+import type { BankAccountMetadata, Branch, BankDetails } from '../types/bank';
+import { getSwiftCode, validateIBAN, validateRIB } from '../validators/bank';
+
+/**
+ * Extracts bank, locality and branch information from a valid RIB or IBAN.
+ * Only the locality codes listed in RIB_LOCALITIES are decoded: for other
+ * codes, the city and branch are undefined and the SWIFT is the bank's.
+ *
+ * @param account - The RIB or IBAN to analyze
+ * @returns Object containing bank, city, branch and SWIFT information, or null if the account is invalid
+ *
+ * @example
+ * ```typescript
+ * extractBankMetadata('011 27000 01234567890123 80');
+ * // Returns {
+ * //   bank: { code: '011', name: 'Banque Centrale Populaire', ... },
+ * //   localityCode: '270',
+ * //   city: 'Fes',
+ * //   branch: { code: 'FES', swift: 'BCPOMAMCFES', city: 'Fes' },
+ * //   swift: 'BCPOMAMCFES'
+ * // }
+ *
+ * extractBankMetadata('invalid'); // Returns null
+ * ```
+ */
+export function extractBankMetadata(
+  account: unknown
+): BankAccountMetadata | null {
+  if (typeof account !== 'string') {
+    return null;
+  }
+
+  const validationResult = /^\s*MA/i.test(account)
+    ? validateIBAN(account)
+    : validateRIB(account);
+  if (
+    !validationResult.isValid ||
+    !validationResult.components ||
+    !validationResult.bank
+  ) {
+    return null;
+  }
+
+  const bank = validationResult.bank;
+  const localityCode = validationResult.components.branchCode.substring(
+    0,
+    LOCALITY_CODE_LENGTH
+  );
+  const city = RIB_LOCALITIES[localityCode];
+  const branch = city ? findCityBranch(bank, city) : undefined;
+
+  return {
+    bank,
+    localityCode,
+    city,
+    branch,
+    swift: getSwiftCode(bank.code, branch?.code),
+  };
+}
+
+/**
+ * Finds the branch of a bank serving the ordinary accounts of a city: its
+ * generic (unnamed) branch there. Named branches are specialised units
+ * (offshore, participative, trade centers, departments, trading rooms) that
+ * do not serve every account opened in their city, so they are never
+ * matched and the bank SWIFT applies instead.
+ */
+function findCityBranch(bank: BankDetails, city: string): Branch | undefined {
+  return (bank.branches ?? []).find(b => b.city === city && !b.name);
+}
@@ -0,0 +1,232 @@
+import type { CompanyIdentifierMatch } from '../types/company';
+import {
+  findCommercialCourt,
+  validateCNSS,
+  validateIF,
+  validateRC,
+  validateTP,
+} from '../validators/company';
+import { validateICE } from '../validators/ice';
+
+/**
+ * Matches an ICE introduced by its label ("ICE: 001663252000092",
+ * "I.C.E. n° 001 663 252 000 092", "التعريف الموحد للمقاولة 001663252000092")
+ */
+const LABELED_ICE_REGEX =
+  /(?:identifiant\s+commun\s+de\s+l['\u2019]\s*entreprise|\bI\.?\s?C\.?\s?E\b\.?|(?:ال)?تعريف\s+الموحد\s+للمقاولة)\s*(?:n\s?[°o]\.?)?\s*:?\s*(\d(?:[\s.]?\d){14})(?!\d)/i;
+
+/**
+ * Matches an identifiant fiscal introduced by its label, in French or Arabic
+ * ("IF: 40123456", "I.F. n° 1234567", "Identifiant fiscal 40123456",
+ * "رقم التعريف الضريبي 40123456")
+ */
+const LABELED_IF_REGEX =
+  /(?:identifiant\s+fiscal|\bI\.?\s?F\b\.?|(?:ال)?(?:تعريف|معرف)\s+الضريبي)\s*(?:n\s?[°o]\.?)?\s*:?\s*(\d(?:[\s.]?\d){6,7})(?!\d)/i;
+
+/**
+ * Matches an RC number introduced by its label, with the court optionally
+ * between the label and the number ("RC Casablanca 123456", "R.C. n° 12345",
+ * "السجل التجاري رقم 12345")
+ */
+const LABELED_RC_REGEX =
+  /(?:registre\s+(?:de|du)\s+commerce|\bR\.?\s?C\b\.?|السجل\s+التجاري)([^\d\n|;]{0,40}?)(\d(?:[\s.]?\d){0,6})(?!\d)/i;
+
+/**
+ * Matches a court written after an RC number and a separator
+ * ("R.C. 12345 - Rabat", "RC 12345 (Fès)")
+ */
+const TRAILING_RC_COURT_REGEX =
+  /^\s*[-\u2013,(/]\s*([^\d\n|;,()\-\u2013/]{2,30})\)?/;
+
+/**
+ * Matches up to three words after an RC number and a plain space
+ * ("RC: 123456 Casablanca", "السجل التجاري رقم 12345 الرباط"). They only count
+ * as the court when they name one of COMMERCIAL_COURTS.
+ */
+const SPACED_RC_COURT_REGEX =
+  /^[ \t]+[^\s\d|;,()\-\u2013/]+(?:[ \t]+[^\s\d|;,()\-\u2013/]+){0,2}/;
+
+/**
+ * Matches a taxe professionnelle number introduced by its label
+ * ("TP: 25700010", "Patente n° 25700010", "الضريبة المهنية 25700010")
+ */
+const LABELED_TP_REGEX =
+  /(?:taxe\s+professionnelle|patente|\bT\.?\s?P\b\.?|(?:ال)?ضريبة\s+المهنية)\s*(?:n\s?[°o]\.?)?\s*:?\s*(\d(?:[\s.]?\d){7})(?!\d)/i;
+
+/**
+ * Matches a CNSS affiliation number introduced by its label ("CNSS: 1234567",
+ * "C.N.S.S. n° d'affiliation 1234567", "الضمان الاجتماعي 1234567")
+ */
+const LABELED_CNSS_REGEX =
+  /(?:\bC\.?\s?N\.?\s?S\.?\s?S\b\.?|(?:ال)?ضمان\s+الاجتماعي)\s*(?:n\s?[°o]\.?)?\s*(?:d['\u2019]\s*)?(?:affiliation)?\s*:?\s*(\d(?:[\s.]?\d){6,8})(?!\d)/i;
+
+/**
+ * Extracts identifiants fiscaux (IF) from free text. Only numbers introduced
+ * by an IF label are extracted, since a bare 7 or 8-digit number could be
+ * anything.
+ *
+ * @param text - Text containing IF numbers (e.g. an invoice footer)
+ * @returns Valid unique IFs, sanitized, in order of appearance
+ *
+ * @example
+ * ```typescript
+ * extractIFs('RC 12345 - IF: 40123456 - ICE 001663252000092');
+ * // Returns ['40123456']
+ * ```
+ */
+export function extractIFs(text: string): string[] {
+  if (typeof text !== 'string') {
+    return [];
+  }
+
+  const found = new Set<string>();
+  const regex = new RegExp(LABELED_IF_REGEX.source, 'gi');
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    const validation = validateIF(match[1]);
+    if (validation.isValid) {
+      found.add(validation.sanitized);
+    }
+  }
+
+  return [...found];
+}
+
+/**
+ * Finds company identifiers (ICE, IF, RC, TP and CNSS) in free text, such as
+ * OCR'd invoices. Only numbers introduced by a label ("ICE :", "I.F.",
+ * "R.C.", "Patente", "CNSS") are found, since bare numbers are ambiguous.
+ * Invalid identifiers are returned too, so that they can be corrected; the
+ * court of an RC is read before or after the number.
+ *
+ * @param text - Text containing company identifiers (e.g. an invoice footer)
+ * @returns Identifiers in order of appearance, with their offsets and validation result
+ *
+ * @example
+ * ```typescript
+ * extractCompanyIdentifiers('RC Casablanca 123456 - I.F. 40123456');
+ * // Returns [
+ * //   {
+ * //     type: 'RC',
+ * //     match: 'RC Casablanca 123456',
+ * //     start: 0,
+ * //     end: 20,
+ * //     validation: { isValid: true, sanitized: '123456', components: { court: 'Casablanca', number: '123456' } }
+ * //   },
+ * //   {
+ * //     type: 'IF',
+ * //     match: 'I.F. 40123456',
+ * //     start: 23,
+ * //     end: 36,
+ * //     validation: { isValid: true, sanitized: '40123456' }
+ * //   }
+ * // ]
+ * ```
+ */
+export function extractCompanyIdentifiers(
+  text: string
+): CompanyIdentifierMatch[] {
+  if (typeof text !== 'string') {
+    return [];
+  }
+
+  const matches: CompanyIdentifierMatch[] = [];
+  const findAll = (
+    source: RegExp,
+    onMatch: (match: RegExpExecArray) => void
+  ) => {
+    const regex = new RegExp(source.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      onMatch(match);
+    }
+  };
+  const span = (match: RegExpExecArray, length = match[0].length) => ({
+    match: text.slice(match.index, match.index + length),
+    start: match.index,
+    end: match.index + length,
+  });
+
+  findAll(LABELED_ICE_REGEX, match =>
+    matches.push({
+      type: 'ICE',
+      ...span(match),
+      validation: validateICE(match[1]),
+    })
+  );
+  findAll(LABELED_IF_REGEX, match =>
+    matches.push({
+      type: 'IF',
+      ...span(match),
+      validation: validateIF(match[1]),
+    })
+  );
+  findAll(LABELED_TP_REGEX, match =>
+    matches.push({
+      type: 'TP',
+      ...span(match),
+      validation: validateTP(match[1]),
+    })
+  );
+  findAll(LABELED_CNSS_REGEX, match =>
+    matches.push({
+      type: 'CNSS',
+      ...span(match),
+      validation: validateCNSS(match[1], 'affiliation'),
+    })
+  );
+  findAll(LABELED_RC_REGEX, match => {
+    const [matched, courtBefore, number] = match;
+    let validation = validateRC(`${courtBefore} ${number}`);
+    let length = matched.length;
+
+    const trailing = findTrailingCourt(text.slice(match.index + length));
+    if (!validation.isValid && trailing) {
+      const withTrailingCourt = validateRC(number, trailing.court);
+      if (withTrailingCourt.isValid) {
+        validation = withTrailingCourt;
+        length += trailing.length;
+      }
+    }
+
+    matches.push({ type: 'RC', ...span(match, length), validation });
+  });
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds a court written right after an RC number: after a separator, or after
+ * a plain space when the following words name a known court, trying the
+ * longest run of words first so that "Dar El Beida" is read whole
+ */
+function findTrailingCourt(
+  rest: string
+): { court: string; length: number } | undefined {
+  const separated = TRAILING_RC_COURT_REGEX.exec(rest);
+  if (separated) {
+    return { court: separated[1], length: separated[0].trimEnd().length };
+  }
+
+  const spaced = SPACED_RC_COURT_REGEX.exec(rest);
+  if (!spaced) {
+    return undefined;
+  }
+
+  const ends: number[] = [];
+  const wordRegex = /\S+/g;
+  let word: RegExpExecArray | null;
+  while ((word = wordRegex.exec(spaced[0])) !== null) {
+    ends.push(word.index + word[0].length);
+  }
+
+  for (const end of ends.reverse()) {
+    const court = spaced[0].slice(0, end).trim();
+    if (findCommercialCourt(court)) {
+      return { court, length: end };
+    }
+  }
+
+  return undefined;
+}
@@ -43,8 +43,8 @@ export class ICEExtractionError extends Error {
  * @throws {ICEExtractionError} If the input is invalid or cannot be extracted.
  */
 export function extractICEComponents(input: string): ICEComponents {
-  // Validate and sanitize the input
-  const validation = validateICE(input);
+  // Validate and sanitize the input, accepting legacy control keys
+  const validation = validateICE(input, { acceptLegacyControl: true });
   if (!validation.isValid) {
     throw new ICEExtractionError(
       ICEExtractionErrorCode.INVALID_INPUT_TYPE,
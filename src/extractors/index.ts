@@ -13,6 +13,16 @@ import { extractCINMetadata } from './cin';
  */
 import { extractICEComponents } from './ice';
 
+/**
+ * Import bank account extraction utilities
+ */
+import { extractBankMetadata } from './bank';
+
+/**
+ * Import company identifier extraction utilities
+ */
+import { extractIFs, extractCompanyIdentifiers } from './company';
+
 /**
  * Namespace containing all CIN-related extraction functions
  */
@@ -27,12 +37,36 @@ const ice = {
   extract: extractICEComponents,
 };
 
+/**
+ * Namespace containing all bank account-related extraction functions
+ */
+const bank = {
+  extract: extractBankMetadata,
+};
+
+/**
+ * Namespace containing all identifiant fiscal (IF) extraction functions
+ */
+const taxId = {
+  extract: extractIFs,
+};
+
+/**
+ * Namespace containing all company identifier extraction functions
+ */
+const company = {
+  extractIdentifiers: extractCompanyIdentifiers,
+};
+
 /**
  * Collection of all extractor namespaces
  */
 export const extractors = {
   cin,
   ice,
+  bank,
+  taxId,
+  company,
 };
 
 /**
@@ -50,3 +84,13 @@ export { extractCINMetadata };
  * Direct exports of ICE extraction functions for granular imports
  */
 export { extractICEComponents };
+
+/**
+ * Direct exports of bank account extraction functions for granular imports
+ */
+export { extractBankMetadata };
+
+/**
+ * Direct exports of company identifier extraction functions for granular imports
+ */
+export { extractIFs, extractCompanyIdentifiers };
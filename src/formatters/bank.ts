@@ -0,0 +1,337 @@
+import { MOROCCAN_BANKS } from '../constants/banks';
+import type {
+  AccountFormat,
+  BankFormatOptions,
+  BankTypingResult,
+} from '../types/bank';
+import { validateIBAN, validateRIB } from '../validators/bank';
+
+export enum BankFormattingErrorCode {
+  INVALID_IBAN = 'BANK_FORMAT_001',
+  INVALID_RIB = 'BANK_FORMAT_002',
+  INVALID_SEPARATOR = 'BANK_FORMAT_003',
+  INVALID_MASK = 'BANK_FORMAT_004',
+}
+
+/**
+ * Custom error class for IBAN and RIB formatting issues.
+ *
+ * This error is thrown when an account number cannot be formatted due to invalid input,
+ * incorrect options, or other formatting-related problems.
+ *
+ * @property {BankFormattingErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new BankFormattingError(BankFormattingErrorCode.INVALID_SEPARATOR, 'Invalid separator provided', { separator: '12' });
+ */
+export class BankFormattingError extends Error {
+  constructor(
+    public code: BankFormattingErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'BankFormattingError';
+  }
+}
+
+// IBANs are printed in groups of 4 characters
+const IBAN_GROUP_SIZE = 4;
+const IBAN_LENGTH = 28;
+
+// Component lengths used while the bank is not yet known
+const DEFAULT_ACCOUNT_FORMAT: AccountFormat = {
+  bankCode: 3,
+  branchCode: 5,
+  accountNumber: 14,
+  ribKey: 2,
+};
+
+/**
+ * Formats a Moroccan IBAN for display in groups of 4 characters.
+ *
+ * @param iban - The IBAN to format (must be valid)
+ * @param options - Formatting options:
+ *   - `separator`: Character between groups (default: space).
+ *   - `mask`: Masks the account number, keeping the last `visibleDigits` (default: 4) characters visible.
+ *
+ * @returns The formatted IBAN
+ *
+ * @throws {BankFormattingError} If the IBAN or the options are invalid
+ *
+ * @example
+ * formatIBAN('MA64007108000779200030312071'); // "MA64 0071 0800 0779 2000 3031 2071"
+ * formatIBAN('MA64007108000779200030312071', { mask: { enabled: true } }); // "MA64 0071 0800 **** **** **** 2071"
+ */
+export function formatIBAN(
+  iban: string,
+  options: BankFormatOptions = {}
+): string {
+  const validation = validateIBAN(iban);
+  if (!validation.isValid || !validation.bank) {
+    throw new BankFormattingError(
+      BankFormattingErrorCode.INVALID_IBAN,
+      'Cannot format invalid IBAN',
+      { input: iban, validationResult: validation }
+    );
+  }
+
+  const separator = getSeparator(options);
+  const { accountFormat } = validation.bank;
+  const accountStart = 4 + accountFormat.bankCode + accountFormat.branchCode;
+  const characters = applyMask(
+    validation.sanitized,
+    accountStart,
+    accountStart + accountFormat.accountNumber,
+    options
+  );
+
+  return groupCharacters(characters, IBAN_GROUP_SIZE).join(separator);
+}
+
+/**
+ * Formats a Moroccan RIB for display, splitting it into bank code, branch
+ * (locality) code, account number and RIB key according to the bank's AccountFormat.
+ *
+ * @param rib - The RIB to format (must be valid)
+ * @param options - Formatting options:
+ *   - `separator`: Character between components (default: space).
+ *   - `mask`: Masks the account number, keeping the last `visibleDigits` (default: 4) characters visible.
+ *
+ * @returns The formatted RIB
+ *
+ * @throws {BankFormattingError} If the RIB or the options are invalid
+ *
+ * @example
+ * formatRIB('007108000779200030312071'); // "007 10800 07792000303120 71"
+ * formatRIB('007108000779200030312071', { separator: '-' }); // "007-10800-07792000303120-71"
+ * formatRIB('007108000779200030312071', { mask: { enabled: true } }); // "007 10800 ************20 71"
+ */
+export function formatRIB(
+  rib: string,
+  options: BankFormatOptions = {}
+): string {
+  const validation = validateRIB(rib);
+  if (!validation.isValid || !validation.bank) {
+    throw new BankFormattingError(
+      BankFormattingErrorCode.INVALID_RIB,
+      'Cannot format invalid RIB',
+      { input: rib, validationResult: validation }
+    );
+  }
+
+  const separator = getSeparator(options);
+  const { accountFormat } = validation.bank;
+  const accountStart = accountFormat.bankCode + accountFormat.branchCode;
+  const characters = applyMask(
+    validation.sanitized,
+    accountStart,
+    accountStart + accountFormat.accountNumber,
+    options
+  );
+
+  return splitByFormat(characters, accountFormat).join(separator);
+}
+
+/**
+ * Formats an IBAN dynamically as the user types, grouping characters by 4
+ * and keeping the caret next to the character it followed in the input.
+ *
+ * @param {string} input - The raw or partially formatted IBAN input.
+ * @param {number} [caretPosition=input.length] - The caret position in the input.
+ * @returns {BankTypingResult} - The formatted IBAN and the new caret position,
+ * or an empty result when the input is null, undefined or not a string.
+ *
+ * @example
+ * formatIBANWhileTyping('MA6400'); // Returns { formatted: "MA64 00", caretPosition: 7 }
+ * formatIBANWhileTyping('MA64 00710', 4); // Returns { formatted: "MA64 0071 0", caretPosition: 4 }
+ */
+export function formatIBANWhileTyping(
+  input: string,
+  caretPosition?: number
+): BankTypingResult {
+  if (typeof input !== 'string') {
+    return { formatted: '', caretPosition: 0 };
+  }
+
+  const clean = input
+    .replace(/[^A-Za-z0-9]/g, '')
+    .toUpperCase()
+    .slice(0, IBAN_LENGTH);
+  const formatted = groupCharacters(clean.split(''), IBAN_GROUP_SIZE).join(' ');
+
+  return {
+    formatted,
+    caretPosition: mapCaretPosition(
+      input,
+      caretPosition ?? input.length,
+      formatted
+    ),
+  };
+}
+
+/**
+ * Formats a RIB dynamically as the user types, splitting it into bank code,
+ * branch code, account number and RIB key once the bank is recognized,
+ * and keeping the caret next to the digit it followed in the input.
+ *
+ * @param {string} input - The raw or partially formatted RIB input.
+ * @param {number} [caretPosition=input.length] - The caret position in the input.
+ * @returns {BankTypingResult} - The formatted RIB and the new caret position,
+ * or an empty result when the input is null, undefined or not a string.
+ *
+ * @example
+ * formatRIBWhileTyping('00710800'); // Returns { formatted: "007 10800", caretPosition: 9 }
+ * formatRIBWhileTyping('007108000779'); // Returns { formatted: "007 10800 0779", caretPosition: 14 }
+ */
+export function formatRIBWhileTyping(
+  input: string,
+  caretPosition?: number
+): BankTypingResult {
+  if (typeof input !== 'string') {
+    return { formatted: '', caretPosition: 0 };
+  }
+
+  const digits = input.replace(/\D/g, '');
+  const bank = MOROCCAN_BANKS.find(b => b.code === digits.substring(0, 3));
+  const accountFormat = bank?.accountFormat ?? DEFAULT_ACCOUNT_FORMAT;
+  const clean = digits.slice(0, bank?.ribLength ?? 24);
+  const formatted = splitByFormat(clean.split(''), accountFormat).join(' ');
+
+  return {
+    formatted,
+    caretPosition: mapCaretPosition(
+      input,
+      caretPosition ?? input.length,
+      formatted
+    ),
+  };
+}
+
+/**
+ * Validates the separator option and returns the separator to use
+ */
+function getSeparator(options: BankFormatOptions): string {
+  const separator = options.separator ?? ' ';
+
+  if (separator.length > 1 || /[A-Za-z0-9]/.test(separator)) {
+    throw new BankFormattingError(
+      BankFormattingErrorCode.INVALID_SEPARATOR,
+      'Separator must be a single non-alphanumeric character',
+      { separator }
+    );
+  }
+
+  return separator;
+}
+
+/**
+ * Masks the characters between `start` and `end`, leaving the last
+ * `visibleDigits` characters of the value visible
+ */
+function applyMask(
+  value: string,
+  start: number,
+  end: number,
+  options: BankFormatOptions
+): string[] {
+  const characters = value.split('');
+  if (!options.mask?.enabled) {
+    return characters;
+  }
+
+  const character = options.mask.character ?? '*';
+  const visibleDigits = options.mask.visibleDigits ?? 4;
+
+  if (character.length !== 1) {
+    throw new BankFormattingError(
+      BankFormattingErrorCode.INVALID_MASK,
+      'Mask character must be a single character',
+      { character }
+    );
+  }
+  if (visibleDigits < 0) {
+    throw new BankFormattingError(
+      BankFormattingErrorCode.INVALID_MASK,
+      'Visible digits must be non-negative',
+      { visibleDigits }
+    );
+  }
+
+  const maskEnd = Math.min(end, value.length - visibleDigits);
+  for (let i = start; i < maskEnd; i++) {
+    characters[i] = character;
+  }
+
+  return characters;
+}
+
+/**
+ * Splits characters into groups of the given size
+ */
+function groupCharacters(characters: string[], size: number): string[] {
+  const groups: string[] = [];
+  for (let i = 0; i < characters.length; i += size) {
+    groups.push(characters.slice(i, i + size).join(''));
+  }
+  return groups;
+}
+
+/**
+ * Splits characters into bank code, branch code, account number and RIB key,
+ * dropping components that have not been typed yet
+ */
+function splitByFormat(
+  characters: string[],
+  accountFormat: AccountFormat
+): string[] {
+  const lengths = [
+    accountFormat.bankCode,
+    accountFormat.branchCode,
+    accountFormat.accountNumber,
+    accountFormat.ribKey,
+  ];
+  const parts: string[] = [];
+  let start = 0;
+
+  for (const length of lengths) {
+    const part = characters.slice(start, start + length).join('');
+    if (part) {
+      parts.push(part);
+    }
+    start += length;
+  }
+
+  return parts;
+}
+
+/**
+ * Maps a caret position in the raw input to the same logical position
+ * (after the same number of significant characters) in the formatted output
+ */
+function mapCaretPosition(
+  input: string,
+  caretPosition: number,
+  formatted: string
+): number {
+  let remaining = input
+    .slice(0, Math.max(0, caretPosition))
+    .replace(/[^A-Za-z0-9]/g, '').length;
+
+  if (remaining === 0) {
+    return 0;
+  }
+
+  for (let i = 0; i < formatted.length; i++) {
+    if (/[A-Za-z0-9]/.test(formatted[i])) {
+      remaining--;
+      if (remaining === 0) {
+        return i + 1;
+      }
+    }
+  }
+
+  return formatted.length;
+}
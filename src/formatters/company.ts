@@ -0,0 +1,136 @@
+import type {
+  CNSSFormatOptions,
+  CNSSNumberType,
+  IFFormatOptions,
+  TPFormatOptions,
+} from '../types/company';
+import { validateCNSS, validateIF, validateTP } from '../validators/company';
+
+export enum CompanyFormattingErrorCode {
+  INVALID_IF = 'COMPANY_FORMAT_001',
+  INVALID_CNSS = 'COMPANY_FORMAT_002',
+  INVALID_TP = 'COMPANY_FORMAT_003',
+}
+
+/**
+ * Custom error class for company identifier formatting issues.
+ *
+ * @property {CompanyFormattingErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new CompanyFormattingError(CompanyFormattingErrorCode.INVALID_IF, 'Cannot format invalid IF', { input: '12' });
+ */
+export class CompanyFormattingError extends Error {
+  constructor(
+    public code: CompanyFormattingErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'CompanyFormattingError';
+  }
+}
+
+/**
+ * Formats an identifiant fiscal (IF) for display.
+ *
+ * @param input - The IF to format (must be valid, with or without label)
+ * @param options - Formatting options:
+ *   - `prefix`: Whether to add an "IF" prefix (default: false).
+ *   - `padToEightDigits`: Whether to pad 7-digit identifiers with a leading zero (default: false).
+ *
+ * @returns The formatted IF
+ *
+ * @throws {CompanyFormattingError} If the IF is invalid
+ *
+ * @example
+ * formatIF('I.F. n° 40.123.456'); // "40123456"
+ * formatIF('1234567', { prefix: true, padToEightDigits: true }); // "IF 01234567"
+ */
+export function formatIF(input: string, options: IFFormatOptions = {}): string {
+  const validation = validateIF(input);
+  if (!validation.isValid) {
+    throw new CompanyFormattingError(
+      CompanyFormattingErrorCode.INVALID_IF,
+      'Cannot format invalid IF',
+      { input, validationResult: validation }
+    );
+  }
+
+  const digits = options.padToEightDigits
+    ? validation.sanitized.padStart(8, '0')
+    : validation.sanitized;
+
+  return options.prefix ? `IF ${digits}` : digits;
+}
+
+/**
+ * Formats a taxe professionnelle (patente) number for display.
+ *
+ * @param input - The TP number to format (must be valid, with or without label)
+ * @param options - Formatting options:
+ *   - `prefix`: Whether to add a "TP" prefix (default: false).
+ *
+ * @returns The formatted TP number
+ *
+ * @throws {CompanyFormattingError} If the TP number is invalid
+ *
+ * @example
+ * formatTP('Patente n° 25.700.010'); // "25700010"
+ * formatTP('25700010', { prefix: true }); // "TP 25700010"
+ */
+export function formatTP(input: string, options: TPFormatOptions = {}): string {
+  const validation = validateTP(input);
+  if (!validation.isValid) {
+    throw new CompanyFormattingError(
+      CompanyFormattingErrorCode.INVALID_TP,
+      'Cannot format invalid TP number',
+      { input, validationResult: validation }
+    );
+  }
+
+  return options.prefix ? `TP ${validation.sanitized}` : validation.sanitized;
+}
+
+/**
+ * Formats a CNSS number for display. Immatriculation numbers are grouped by
+ * 3 digits; affiliation numbers are kept as a single block.
+ *
+ * @param input - The CNSS number to format (must be valid, with or without label)
+ * @param type - The expected kind of number (inferred from the length by default)
+ * @param options - Formatting options:
+ *   - `separator`: Separator between groups of immatriculation numbers (default: ' ').
+ *   - `prefix`: Whether to add a "CNSS" prefix (default: false).
+ *
+ * @returns The formatted CNSS number
+ *
+ * @throws {CompanyFormattingError} If the CNSS number is invalid
+ *
+ * @example
+ * formatCNSS('123456789'); // "123 456 789"
+ * formatCNSS('N° d\'affiliation 1234567', 'affiliation', { prefix: true }); // "CNSS 1234567"
+ */
+export function formatCNSS(
+  input: string,
+  type?: CNSSNumberType,
+  options: CNSSFormatOptions = {}
+): string {
+  const validation = validateCNSS(input, type);
+  if (!validation.isValid) {
+    throw new CompanyFormattingError(
+      CompanyFormattingErrorCode.INVALID_CNSS,
+      'Cannot format invalid CNSS number',
+      { input, validationResult: validation }
+    );
+  }
+
+  const { separator = ' ', prefix = false } = options;
+  const formatted =
+    validation.type === 'immatriculation'
+      ? validation.sanitized.match(/\d{3}/g)!.join(separator)
+      : validation.sanitized;
+
+  return prefix ? `CNSS ${formatted}` : formatted;
+}
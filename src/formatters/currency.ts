@@ -0,0 +1,230 @@
+import {
+  MAD_DEFAULT_SYMBOLS,
+  MAD_NUMBER_SEPARATORS,
+} from '../constants/currency';
+import type { MADFormatOptions, MADSymbol } from '../types/currency';
+import { toCentimes } from '../validators/currency';
+
+export enum CurrencyFormattingErrorCode {
+  INVALID_AMOUNT = 'CURRENCY_FORMAT_001',
+  INVALID_LOCALE = 'CURRENCY_FORMAT_002',
+  INVALID_SYMBOL = 'CURRENCY_FORMAT_003',
+  INVALID_DECIMALS = 'CURRENCY_FORMAT_004',
+  UNPARSABLE_AMOUNT = 'CURRENCY_FORMAT_005',
+}
+
+/**
+ * Custom error class for amount formatting and parsing issues.
+ *
+ * @property {CurrencyFormattingErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new CurrencyFormattingError(CurrencyFormattingErrorCode.INVALID_DECIMALS, 'Decimals must be an integer from 0 to 2', { decimals: 3 });
+ */
+export class CurrencyFormattingError extends Error {
+  constructor(
+    public code: CurrencyFormattingErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'CurrencyFormattingError';
+  }
+}
+
+const MAD_SYMBOLS: ReadonlyArray<MADSymbol> = ['DH', 'MAD', 'د.م.'];
+
+// Currency words and symbols ignored when parsing, with an optional final dot
+const CURRENCY_MARKERS = /dirhams?\.?|dhs?\.?|mad\.?|دراهم|درهم|د\.\s?م\.?/gi;
+
+/**
+ * Formats an amount in Moroccan Dirhams in figures.
+ *
+ * Amounts are rounded half away from zero to the requested number of
+ * decimals. Digits are grouped by thousands and the symbol follows the
+ * amount, as is usual in Morocco.
+ *
+ * @param amount - The amount in dirhams
+ * @param options - Formatting options:
+ *   - `locale`: 'fr-MA' (default) or 'ar-MA'.
+ *   - `symbol`: 'DH', 'MAD' or 'د.م.' (default: 'DH' in French, 'د.م.' in Arabic).
+ *   - `decimals`: Number of decimals from 0 to 2 (default: 2).
+ *
+ * @returns The formatted amount
+ *
+ * @throws {CurrencyFormattingError} If the amount or the options are invalid
+ *
+ * @example
+ * formatMAD(1234.56); // "1 234,56 DH" (with narrow no-break spaces)
+ * formatMAD(1234.56, { symbol: 'MAD', decimals: 0 }); // "1 235 MAD"
+ * formatMAD(-1234.5, { locale: 'ar-MA' }); // "-1.234,50 د.م."
+ */
+export function formatMAD(
+  amount: number,
+  options: MADFormatOptions = {}
+): string {
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    throw new CurrencyFormattingError(
+      CurrencyFormattingErrorCode.INVALID_AMOUNT,
+      'Amount must be a finite number',
+      { amount }
+    );
+  }
+
+  const locale = options.locale ?? 'fr-MA';
+  if (!Object.prototype.hasOwnProperty.call(MAD_NUMBER_SEPARATORS, locale)) {
+    throw new CurrencyFormattingError(
+      CurrencyFormattingErrorCode.INVALID_LOCALE,
+      "Locale must be 'fr-MA' or 'ar-MA'",
+      { locale }
+    );
+  }
+
+  const symbol = options.symbol ?? MAD_DEFAULT_SYMBOLS[locale];
+  if (!MAD_SYMBOLS.includes(symbol)) {
+    throw new CurrencyFormattingError(
+      CurrencyFormattingErrorCode.INVALID_SYMBOL,
+      `Symbol must be one of ${MAD_SYMBOLS.join(', ')}`,
+      { symbol }
+    );
+  }
+
+  const decimals = options.decimals ?? 2;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 2) {
+    throw new CurrencyFormattingError(
+      CurrencyFormattingErrorCode.INVALID_DECIMALS,
+      'Decimals must be an integer from 0 to 2',
+      { decimals }
+    );
+  }
+
+  const separators = MAD_NUMBER_SEPARATORS[locale];
+
+  const step = 10 ** (2 - decimals);
+  const cents = toCentimes(amount);
+  const rounded = Math.round(cents / step) * step;
+
+  const whole = String(Math.floor(rounded / 100)).replace(
+    /\B(?=(\d{3})+(?!\d))/g,
+    separators.group
+  );
+  const fraction =
+    decimals > 0
+      ? separators.decimal +
+        String(rounded % 100)
+          .padStart(2, '0')
+          .slice(0, decimals)
+      : '';
+  const sign = amount < 0 && rounded > 0 ? '-' : '';
+
+  return `${sign}${whole}${fraction}${separators.symbol}${symbol}`;
+}
+
+/**
+ * Parses an amount in Moroccan Dirhams written in figures.
+ *
+ * The parsing is lenient: the symbol may come before or after the amount
+ * (DH, dhs, MAD, dirhams, درهم, د.م.), digits may be Arabic-Indic, and both
+ * French (1 234,56) and English (1,234.56) separators are understood. A single
+ * separator followed by exactly three digits is a thousands separator, since
+ * amounts have at most two decimals. Spaces, apostrophes and Arabic thousands
+ * separators only separate groups of three digits, so that '12 50' or
+ * '12 DH 50' are rejected rather than read as 1 250 DH.
+ *
+ * The result is an integer number of centimes, so that amounts can be added
+ * and compared without floating-point errors.
+ *
+ * @param input - The amount to parse
+ * @returns The amount in centimes
+ *
+ * @throws {CurrencyFormattingError} If the input is not an amount
+ *
+ * @example
+ * parseMAD('1.234,56 dhs'); // 123456
+ * parseMAD('1 234 DH'); // 123400
+ * parseMAD('MAD 1234.5'); // 123450
+ * parseMAD('١٢٣٤٫٥٦ د.م.'); // 123456
+ */
+export function parseMAD(input: string): number {
+  const unparsable = (reason: string) =>
+    new CurrencyFormattingError(
+      CurrencyFormattingErrorCode.UNPARSABLE_AMOUNT,
+      `Cannot parse amount: ${reason}`,
+      { input }
+    );
+
+  if (typeof input !== 'string') {
+    throw unparsable('input must be a string');
+  }
+
+  const normalized = input
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, ',')
+    .replace(CURRENCY_MARKERS, ' ')
+    .trim();
+
+  const match = /^([-−])?\s*(\d[\d.,\s٬']*)$/.exec(normalized);
+  if (!match) {
+    throw unparsable('expected digits with an optional sign and symbol');
+  }
+
+  const [, sign, written] = match;
+  if (
+    /[\s٬']/.test(written) &&
+    !/^\d{1,3}([\s٬']\d{3})+([.,]\d{1,2})?$/.test(written)
+  ) {
+    throw unparsable('digits must be grouped by three');
+  }
+
+  const number = written.replace(/[\s٬']/g, '');
+  const decimalSeparator = findDecimalSeparator(number);
+  const parts = decimalSeparator ? number.split(decimalSeparator) : [number];
+  const [integerPart, fractionPart = ''] = parts;
+
+  if (parts.length > 2) {
+    throw unparsable('too many decimal separators');
+  }
+  if (!/^\d{1,3}([.,]\d{3})*$|^\d+$/.test(integerPart)) {
+    throw unparsable('digits must be grouped by three');
+  }
+  if (decimalSeparator && !/^\d{1,2}$/.test(fractionPart)) {
+    throw unparsable('amounts have at most two decimals');
+  }
+
+  const centimes =
+    Number(integerPart.replace(/[.,]/g, '')) * 100 +
+    Number(fractionPart.padEnd(2, '0'));
+
+  if (!Number.isSafeInteger(centimes)) {
+    throw unparsable('amount is too large');
+  }
+
+  return sign && centimes > 0 ? -centimes : centimes;
+}
+
+/**
+ * Picks the decimal separator of a number using dots and commas, if any
+ */
+function findDecimalSeparator(number: string): '.' | ',' | null {
+  const lastDot = number.lastIndexOf('.');
+  const lastComma = number.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    return lastDot > lastComma ? '.' : ',';
+  }
+
+  const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+  if (
+    !separator ||
+    number.indexOf(separator) !== number.lastIndexOf(separator)
+  ) {
+    return null;
+  }
+
+  return /^\d{3}$/.test(number.slice(number.lastIndexOf(separator) + 1))
+    ? null
+    : separator;
+}
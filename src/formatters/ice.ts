@@ -55,8 +55,9 @@ export class ICEFormattingError extends Error {
  * formatICE('123456789000131', { groupCompanyDigits: true }); // "123 456 789 0001 31"
  */
 export function formatICE(ice: string, options: ICEFormatOptions = {}): string {
-  // Validate and sanitize first
-  const validation = validateICE(ice);
+  // Validate and sanitize first. Numbers issued under the legacy control rule
+  // are still displayed.
+  const validation = validateICE(ice, { acceptLegacyControl: true });
   if (!validation.isValid) {
     throw new ICEFormattingError(
       ICEFormattingErrorCode.INVALID_INPUT_TYPE,
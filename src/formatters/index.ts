@@ -23,6 +23,32 @@ import {
   ICEFormattingError,
 } from './ice';
 
+/**
+ * Import bank account formatting utilities
+ */
+import {
+  formatIBAN,
+  formatRIB,
+  formatIBANWhileTyping,
+  formatRIBWhileTyping,
+  BankFormattingError,
+} from './bank';
+
+/**
+ * Import currency formatting utilities
+ */
+import { formatMAD, parseMAD, CurrencyFormattingError } from './currency';
+
+/**
+ * Import company identifier formatting utilities
+ */
+import {
+  formatIF,
+  formatTP,
+  formatCNSS,
+  CompanyFormattingError,
+} from './company';
+
 /**
  * Namespace containing all CIN-related formatting functions
  */
@@ -42,12 +68,61 @@ const ice = {
   FormattingError: ICEFormattingError,
 };
 
+/**
+ * Namespace containing all bank account-related formatting functions
+ */
+const bank = {
+  formatIBAN,
+  formatRIB,
+  formatIBANWhileTyping,
+  formatRIBWhileTyping,
+  FormattingError: BankFormattingError,
+};
+
+/**
+ * Namespace containing all currency-related formatting functions
+ */
+const currency = {
+  format: formatMAD,
+  parse: parseMAD,
+  FormattingError: CurrencyFormattingError,
+};
+
+/**
+ * Namespace containing all identifiant fiscal (IF) formatting functions
+ */
+const taxId = {
+  format: formatIF,
+  FormattingError: CompanyFormattingError,
+};
+
+/**
+ * Namespace containing all taxe professionnelle (patente) formatting functions
+ */
+const patente = {
+  format: formatTP,
+  FormattingError: CompanyFormattingError,
+};
+
+/**
+ * Namespace containing all CNSS number formatting functions
+ */
+const cnss = {
+  format: formatCNSS,
+  FormattingError: CompanyFormattingError,
+};
+
 /**
  * Collection of all formatter namespaces
  */
 export const formatters = {
   cin,
   ice,
+  bank,
+  currency,
+  taxId,
+  patente,
+  cnss,
 };
 
 /**
@@ -65,3 +140,24 @@ export { formatCIN, getAllCINFormats, CINFormatter, CINFormattingError };
  * Direct exports of ICE formatting functions and classes for granular imports
  */
 export { formatICE, formatICEWhileTyping, unformatICE, ICEFormattingError };
+
+/**
+ * Direct exports of bank account formatting functions and classes for granular imports
+ */
+export {
+  formatIBAN,
+  formatRIB,
+  formatIBANWhileTyping,
+  formatRIBWhileTyping,
+  BankFormattingError,
+};
+
+/**
+ * Direct exports of currency formatting functions and classes for granular imports
+ */
+export { formatMAD, parseMAD, CurrencyFormattingError };
+
+/**
+ * Direct exports of company identifier formatting functions and classes for granular imports
+ */
+export { formatIF, formatTP, formatCNSS, CompanyFormattingError };
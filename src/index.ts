@@ -1,3 +1,5 @@
 export * from './validators';
 export * from './formatters';
 export * from './extractors';
+export * from './calculators';
+export * from './lookups';
@@ -0,0 +1,210 @@
+import { MOROCCAN_BANKS } from '../constants/banks';
+import type {
+  BankBranchEntry,
+  BankDetails,
+  BankQueryOptions,
+  Branch,
+  BranchQueryOptions,
+  BranchType,
+} from '../types/bank';
+
+/**
+ * Lists Moroccan banks, optionally filtered by status
+ *
+ * @param options - Query options
+ * @returns Banks matching the options, in directory order
+ *
+ * @example
+ * ```typescript
+ * listBanks(); // Returns all banks
+ * listBanks({ active: true }); // Returns active banks only
+ * ```
+ */
+export function listBanks(options: BankQueryOptions = {}): BankDetails[] {
+  return MOROCCAN_BANKS.filter(bank => matchesStatus(bank, options));
+}
+
+/**
+ * Searches banks by name, code, SWIFT code or common acronym (AWB, BP...)
+ *
+ * The search is case and accent insensitive and tolerates small typos
+ * (e.g. "atijari"). Results are sorted by relevance: exact code, SWIFT or
+ * acronym matches first, then names starting with the query, then names containing
+ * it, then approximate matches.
+ *
+ * @param query - Text to search for
+ * @param options - Query options
+ * @returns Matching banks, most relevant first
+ *
+ * @example
+ * ```typescript
+ * searchBanks('attijari'); // Returns [Attijariwafa Bank]
+ * searchBanks('BMCE'); // Returns [Bank of Africa (BMCE)]
+ * searchBanks('AWB'); // Returns [Attijariwafa Bank]
+ * searchBanks('CIH', { active: true }); // Returns [CIH Bank]
+ * ```
+ */
+export function searchBanks(
+  query: string,
+  options: BankQueryOptions = {}
+): BankDetails[] {
+  if (typeof query !== 'string') {
+    return [];
+  }
+
+  const normalizedQuery = normalizeText(query);
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  return listBanks(options)
+    .map(bank => ({ bank, score: scoreBank(bank, normalizedQuery) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ bank }) => bank);
+}
+
+/**
+ * Lists bank branches across all banks, optionally filtered by city, kind
+ * of branch, bank or bank status
+ *
+ * @param options - Query options
+ * @returns Matching branches with the bank they belong to
+ *
+ * @example
+ * ```typescript
+ * listBranches({ city: 'Fès' });
+ * // Returns [{ code: 'FES', swift: 'BCPOMAMCFES', city: 'Fes', bankCode: '011', ... }, ...]
+ *
+ * listBranches({ type: 'offshore' }); // Returns offshore branches of all banks
+ * listBranches({ type: 'participative', city: 'Casablanca' });
+ * ```
+ */
+export function listBranches(
+  options: BranchQueryOptions = {}
+): BankBranchEntry[] {
+  const city = options.city ? normalizeText(options.city) : undefined;
+
+  return listBanks(options)
+    .filter(bank => !options.bankCode || bank.code === options.bankCode)
+    .flatMap(bank =>
+      (bank.branches ?? []).map(branch => ({
+        ...branch,
+        bankCode: bank.code,
+        bankName: bank.name,
+        type: getBranchType(branch),
+      }))
+    )
+    .filter(
+      entry =>
+        (!city || normalizeText(entry.city) === city) &&
+        (!options.type || entry.type === options.type)
+    );
+}
+
+/**
+ * Lists the cities where at least one bank has a branch
+ *
+ * @returns City names sorted alphabetically
+ *
+ * @example
+ * ```typescript
+ * listBranchCities(); // Returns ['Agadir', 'Al Hoceima', 'Beni Mellal', ...]
+ * ```
+ */
+export function listBranchCities(): string[] {
+  const cities = new Set(listBranches().map(entry => entry.city));
+  return [...cities].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Derives the kind of a branch from its name
+ */
+function getBranchType(branch: Branch): BranchType {
+  if (/offshore/i.test(branch.name ?? '')) return 'offshore';
+  if (/participativ/i.test(branch.name ?? '')) return 'participative';
+  return 'standard';
+}
+
+/**
+ * Checks whether a bank matches the status filter
+ */
+function matchesStatus(bank: BankDetails, options: BankQueryOptions): boolean {
+  return options.active === undefined || bank.active === options.active;
+}
+
+/**
+ * Scores how well a bank matches a normalized query (0 means no match)
+ */
+function scoreBank(bank: BankDetails, query: string): number {
+  const name = normalizeText(bank.name);
+  const compactQuery = query.replace(/\s/g, '');
+
+  if (
+    bank.code === compactQuery ||
+    bank.swift.toLowerCase() === compactQuery ||
+    (bank.aliases ?? []).some(alias => alias.toLowerCase() === compactQuery) ||
+    name === query
+  ) {
+    return 100;
+  }
+  if (name.startsWith(query)) return 90;
+  if (name.includes(query)) return 80;
+
+  const nameTokens = name.split(' ');
+  const matchesAllTokens = query
+    .split(' ')
+    .every(token =>
+      nameTokens.some(nameToken => isApproximatePrefix(token, nameToken))
+    );
+
+  return matchesAllTokens ? 50 : 0;
+}
+
+/**
+ * Checks whether a query token is a prefix of a name token, allowing one
+ * typo for tokens of 4 characters or more and two from 8 characters
+ */
+function isApproximatePrefix(token: string, nameToken: string): boolean {
+  const allowedTypos = token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+  const candidates = [token.length - 1, token.length, token.length + 1].map(
+    length => nameToken.slice(0, length)
+  );
+
+  return candidates.some(
+    candidate => levenshtein(token, candidate) <= allowedTypos
+  );
+}
+
+/**
+ * Computes the edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Lowercases text, strips accents and collapses punctuation into spaces
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,37 @@
+/**
+ * Lookup module for Moroccan reference directories
+ * @module lookups
+ */
+
+/**
+ * Import bank directory utilities
+ */
+import { listBanks, searchBanks, listBranches, listBranchCities } from './bank';
+
+/**
+ * Namespace containing all bank directory functions
+ */
+const bank = {
+  list: listBanks,
+  search: searchBanks,
+  listBranches,
+  listBranchCities,
+};
+
+/**
+ * Collection of all lookup namespaces
+ */
+export const lookups = {
+  bank,
+};
+
+/**
+ * Default export providing access to all lookup functions
+ * @default
+ */
+export default lookups;
+
+/**
+ * Direct exports of bank directory functions for granular imports
+ */
+export { listBanks, searchBanks, listBranches, listBranchCities };
@@ -1,3 +1,21 @@
+/**
+ * Error codes for bank account validation
+ */
+export enum BankValidationError {
+  INVALID_INPUT_TYPE = 'BANK_001',
+  INVALID_IBAN_FORMAT = 'BANK_002',
+  INVALID_BANK_CODE = 'BANK_003',
+  INVALID_IBAN_CHECKSUM = 'BANK_004',
+  INVALID_RIB_FORMAT = 'BANK_005',
+  INVALID_RIB_LENGTH = 'BANK_006',
+  INVALID_RIB_CHECKSUM = 'BANK_007',
+  BANK_NOT_FOUND = 'BANK_008',
+  INVALID_AMOUNT = 'BANK_009',
+  BRANCH_NOT_FOUND = 'BANK_010',
+  INVALID_BIC_FORMAT = 'BANK_011',
+  INVALID_BIC_COUNTRY = 'BANK_012',
+}
+
 export type AccountFormat = {
   bankCode: number;
   branchCode: number;
@@ -17,6 +35,8 @@ export interface BankDetails {
   ibanRegex: RegExp;
   ribRegex: RegExp;
   branches?: Branch[];
+  /** Acronyms the bank is commonly known by (e.g. AWB) */
+  aliases?: string[];
 }
 
 export interface Branch {
@@ -25,3 +45,215 @@ export interface Branch {
   city: string;
   name?: string;
 }
+
+/**
+ * Represents an error that occurred during bank account validation
+ */
+export interface BankError {
+  /** Error code from BankValidationError enum */
+  code: BankValidationError;
+  /** Human-readable error message */
+  message: string;
+  /** Additional context about the error */
+  details?: Record<string, any>;
+}
+
+/**
+ * Components of a Moroccan RIB, sized according to the bank's AccountFormat
+ */
+export interface RIBComponents {
+  /** Bank code */
+  bankCode: string;
+  /** Branch (locality) code */
+  branchCode: string;
+  /** Account number */
+  accountNumber: string;
+  /** RIB key */
+  ribKey: string;
+}
+
+/**
+ * Components of a Moroccan IBAN
+ */
+export interface IBANComponents extends RIBComponents {
+  /** ISO country code, always 'MA' */
+  countryCode: string;
+  /** Two IBAN check digits */
+  checkDigits: string;
+}
+
+/**
+ * Result of validating an IBAN
+ */
+export interface IBANValidationResult {
+  /** Whether the IBAN is valid */
+  isValid: boolean;
+  /** Sanitized version of the input (no whitespace, uppercase) */
+  sanitized: string;
+  /** Parsed components of the IBAN */
+  components?: IBANComponents;
+  /** Details of the bank the IBAN belongs to */
+  bank?: BankDetails;
+  /** Error details if validation failed */
+  error?: BankError;
+}
+
+/**
+ * Result of validating a RIB
+ */
+export interface RIBValidationResult {
+  /** Whether the RIB is valid */
+  isValid: boolean;
+  /** Sanitized version of the input (no whitespace or hyphens) */
+  sanitized: string;
+  /** Parsed components of the RIB */
+  components?: RIBComponents;
+  /** Details of the bank the RIB belongs to */
+  bank?: BankDetails;
+  /** RIB key computed from the rest of the RIB */
+  expectedKey?: string;
+  /** RIB key found in the input */
+  actualKey?: string;
+  /** Error details if validation failed */
+  error?: BankError;
+}
+
+export interface RIBGenerationOptions {
+  /**
+   * Bank code from MOROCCAN_BANKS. A random active bank is used when omitted.
+   */
+  bankCode?: string;
+
+  /**
+   * Branch (locality) code, sized according to the bank's AccountFormat.
+   * Random digits are used when omitted.
+   */
+  branchCode?: string;
+}
+
+export interface BankFormatOptions {
+  /**
+   * The separator to use between groups.
+   * @default ' '
+   */
+  separator?: string;
+
+  /**
+   * Mask the account number for privacy. Only account number digits are masked;
+   * bank code, branch code and the last `visibleDigits` characters stay visible.
+   * @default undefined
+   */
+  mask?: {
+    enabled: boolean;
+    character?: string;
+    visibleDigits?: number;
+  };
+}
+
+/**
+ * Result of formatting a bank account number while the user types
+ */
+export interface BankTypingResult {
+  /** Formatted (possibly partial) account number */
+  formatted: string;
+  /** Caret position in the formatted string */
+  caretPosition: number;
+}
+
+/**
+ * Metadata extracted from a RIB or IBAN
+ */
+export interface BankAccountMetadata {
+  /** Bank the account belongs to */
+  bank: BankDetails;
+  /** Locality code (first digits of the branch code) */
+  localityCode: string;
+  /** City of the locality, if listed in RIB_LOCALITIES */
+  city?: string;
+  /** Bank branch matching the city, if one exists */
+  branch?: Branch;
+  /** SWIFT/BIC code of the branch, or of the bank when no branch matches */
+  swift?: string;
+}
+
+/**
+ * Components of a SWIFT/BIC code
+ */
+export interface BICComponents {
+  /** 4-letter institution (bank) code */
+  institution: string;
+  /** 2-letter ISO country code */
+  country: string;
+  /** 2-character location code */
+  location: string;
+  /** 3-character branch code, if present */
+  branch?: string;
+}
+
+/**
+ * Result of validating a SWIFT/BIC code
+ */
+export interface BICValidationResult {
+  /** Whether the BIC is valid */
+  isValid: boolean;
+  /** Sanitized version of the input (no whitespace, uppercase) */
+  sanitized: string;
+  /** Parsed components of the BIC */
+  components?: BICComponents;
+  /** Error details if validation failed */
+  error?: BankError;
+}
+
+/**
+ * Result of looking up a bank by its SWIFT/BIC code
+ */
+export interface BICLookupResult {
+  /** Bank owning the BIC */
+  bank: BankDetails;
+  /** Branch matching the BIC branch suffix, if any */
+  branch?: Branch;
+  /** Whether the branch suffix is known (always true for head-office BICs) */
+  isBranchKnown: boolean;
+}
+
+/**
+ * Kind of bank branch, derived from its name
+ */
+export type BranchType = 'standard' | 'offshore' | 'participative';
+
+/**
+ * A bank branch together with the bank it belongs to
+ */
+export interface BankBranchEntry extends Branch {
+  /** Code of the bank owning the branch */
+  bankCode: string;
+  /** Name of the bank owning the branch */
+  bankName: string;
+  /** Kind of branch */
+  type: BranchType;
+}
+
+export interface BankQueryOptions {
+  /**
+   * Only return active (true) or inactive (false) banks.
+   * All banks are returned when omitted.
+   */
+  active?: boolean;
+}
+
+export interface BranchQueryOptions extends BankQueryOptions {
+  /**
+   * City of the branch (case and accent insensitive)
+   */
+  city?: string;
+
+  /**
+   * Kind of branch
+   */
+  type?: BranchType;
+
+  /**
+   * Code of the bank owning the branch
+   */
+  bankCode?: string;
+}
@@ -0,0 +1,62 @@
+import type { MADToWordsOptions } from './currency';
+
+// Cheque error codes
+export enum ChequeValidationError {
+  INVALID_AMOUNT = 'CHEQUE_001',
+  UNREADABLE_WORDS = 'CHEQUE_002',
+  AMOUNT_MISMATCH = 'CHEQUE_003',
+}
+
+/**
+ * Represents an error that occurred while checking a cheque
+ */
+export interface ChequeError {
+  code: ChequeValidationError;
+  message: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Part of an amount compared separately, from the sign down to the centimes
+ */
+export type ChequeAmountPart =
+  | 'sign'
+  | 'billions'
+  | 'millions'
+  | 'thousands'
+  | 'units'
+  | 'centimes';
+
+/**
+ * A part of the amount that differs between figures and words. For the sign,
+ * values are -1 or 1.
+ */
+export interface ChequeAmountDivergence {
+  part: ChequeAmountPart;
+  inFigures: number;
+  inWords: number;
+}
+
+/**
+ * Options for the canonical wording. Its language defaults to the language of
+ * the amount in words.
+ */
+export type ChequeAmountCheckOptions = MADToWordsOptions;
+
+/**
+ * Result of comparing the amount in figures of a cheque with its amount in words
+ */
+export interface ChequeAmountCheckResult {
+  /** Whether both amounts are the same to the centime */
+  isMatch: boolean;
+  /** Amount in figures, rounded to the centime */
+  amountInFigures?: number;
+  /** Amount read from the words */
+  amountInWords?: number;
+  /** Wording of the amount in figures, as written by madToWords */
+  canonicalWords?: string;
+  /** Parts of the amount that differ, from the largest */
+  divergences: ChequeAmountDivergence[];
+  /** Error details if the amounts do not match */
+  error?: ChequeError;
+}
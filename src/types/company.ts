@@ -1,36 +1,295 @@
-// TODO This is for companies
-export enum ICEErrorCode {
-  INVALID_INPUT = 'INVALID_INPUT',
-  INVALID_FORMAT = 'INVALID_FORMAT',
-  INVALID_SEQUENCE = 'INVALID_SEQUENCE',
-  PARTIALLY_VALID = 'PARTIALLY_VALID',
+import type { ICEValidationErrorCode, ICEValidationResult } from './ice';
+
+// RC error codes
+export enum RCValidationErrorCode {
+  INVALID_INPUT_TYPE = 'RC_001',
+  INVALID_FORMAT = 'RC_002',
+  MISSING_COURT = 'RC_003',
+  UNKNOWN_COURT = 'RC_004',
+  COURT_MISMATCH = 'RC_005',
+}
+
+// IF error codes
+export enum IFValidationErrorCode {
+  INVALID_INPUT_TYPE = 'IF_001',
+  INVALID_LENGTH = 'IF_002',
+  NON_NUMERIC_CHARACTERS = 'IF_003',
+  PLACEHOLDER_VALUE = 'IF_004',
+}
+
+// Taxe professionnelle error codes
+export enum TPValidationErrorCode {
+  INVALID_INPUT_TYPE = 'TP_001',
+  INVALID_LENGTH = 'TP_002',
+  NON_NUMERIC_CHARACTERS = 'TP_003',
+  PLACEHOLDER_VALUE = 'TP_004',
+}
+
+// CNSS error codes
+export enum CNSSValidationErrorCode {
+  INVALID_INPUT_TYPE = 'CNSS_001',
+  INVALID_LENGTH = 'CNSS_002',
+  NON_NUMERIC_CHARACTERS = 'CNSS_003',
+  PLACEHOLDER_VALUE = 'CNSS_004',
+}
+
+// Company identity cross-check error codes
+export enum CompanyIdentityErrorCode {
+  MISSING_ICE = 'IDENTITY_001',
+  MISSING_RC = 'IDENTITY_002',
+  MISSING_RC_NUMBER = 'IDENTITY_003',
+  UNKNOWN_LEGAL_FORM = 'IDENTITY_004',
+}
+
+/**
+ * Error codes of all company identifiers
+ */
+export type CompanyValidationErrorCode =
+  | RCValidationErrorCode
+  | IFValidationErrorCode
+  | TPValidationErrorCode
+  | CNSSValidationErrorCode;
+
+/**
+ * Kind of court keeping a registre de commerce: the commercial courts, or the
+ * courts of first instance in cities without one
+ */
+export type CourtType = 'commercial' | 'first-instance';
+
+/**
+ * A court keeping a registre de commerce
+ */
+export interface CommercialCourt {
+  /** City of the court, which names its registry (e.g. 'Casablanca') */
+  city: string;
+  /** Kind of court */
+  type: CourtType;
+  /** Other spellings of the city, in French, English or Arabic */
+  aliases: string[];
+}
+
+/**
+ * An RC number with the court it was registered at. RC numbers are only unique
+ * per court.
+ */
+export interface RCComponents {
+  /** City of the court (e.g. 'Casablanca') */
+  court: string;
+  /** Registration number, digits only */
+  number: string;
+}
+
+export interface RCValidationError {
+  /** Error code from RCValidationErrorCode enum */
+  code: RCValidationErrorCode;
+  /** Human-readable error message */
+  message: string;
+  /** Additional context about the error */
+  details?: Record<string, any>;
+}
+
+export interface RCValidationResult {
+  /** Whether the RC number is valid */
+  isValid: boolean;
+  /** Registration number found in the input, digits only */
+  sanitized: string;
+  /** Court and number of the RC, when valid */
+  components?: RCComponents;
+  /** Error details if validation failed */
+  error?: RCValidationError;
+}
+
+export interface IFValidationError {
+  /** Error code from IFValidationErrorCode enum */
+  code: IFValidationErrorCode;
+  /** Human-readable error message */
+  message: string;
+  /** Additional context about the error */
+  details?: Record<string, any>;
+}
+
+export interface IFValidationResult {
+  /** Whether the identifiant fiscal is valid */
+  isValid: boolean;
+  /** Sanitized version of the input (without label and separators) */
+  sanitized: string;
+  /** Error details if validation failed */
+  error?: IFValidationError;
+}
+
+export interface IFFormatOptions {
+  /**
+   * Whether to add an "IF" prefix
+   * @default false
+   */
+  prefix?: boolean;
+
+  /**
+   * Whether to pad 7-digit identifiers with a leading zero
+   * @default false
+   */
+  padToEightDigits?: boolean;
+}
+
+export interface TPValidationError {
+  /** Error code from TPValidationErrorCode enum */
+  code: TPValidationErrorCode;
+  /** Human-readable error message */
+  message: string;
+  /** Additional context about the error */
+  details?: Record<string, any>;
+}
+
+export interface TPValidationResult {
+  /** Whether the taxe professionnelle number is valid */
+  isValid: boolean;
+  /** Sanitized version of the input (without label and separators) */
+  sanitized: string;
+  /** Error details if validation failed */
+  error?: TPValidationError;
+}
+
+export interface TPFormatOptions {
+  /**
+   * Whether to add a "TP" prefix
+   * @default false
+   */
+  prefix?: boolean;
 }
 
 /**
- * Represents an error that occurred during CIN validation
+ * Kind of CNSS number: employer affiliation (7 digits) or employee
+ * immatriculation (9 digits)
  */
-export interface ICEError {
-  /** The type of error that occurred */
-  code: ICEErrorCode;
-  /** Detailed error message */
+export type CNSSNumberType = 'affiliation' | 'immatriculation';
+
+export interface CNSSValidationError {
+  /** Error code from CNSSValidationErrorCode enum */
+  code: CNSSValidationErrorCode;
+  /** Human-readable error message */
   message: string;
+  /** Additional context about the error */
+  details?: Record<string, any>;
 }
 
+export interface CNSSValidationResult {
+  /** Whether the CNSS number is valid */
+  isValid: boolean;
+  /** Sanitized version of the input (without label and separators) */
+  sanitized: string;
+  /** Kind of CNSS number, when valid */
+  type?: CNSSNumberType;
+  /** Error details if validation failed */
+  error?: CNSSValidationError;
+}
+
+export interface CNSSFormatOptions {
+  /**
+   * Separator between groups of 3 digits of immatriculation numbers
+   * @default ' '
+   */
+  separator?: string;
+
+  /**
+   * Whether to add a "CNSS" prefix
+   * @default false
+   */
+  prefix?: boolean;
+}
+
+/**
+ * Legal form of a business: SA, SAS, SARL, SARL AU, SNC, SCS, SCA, GIE,
+ * entreprise individuelle or auto-entrepreneur
+ */
+export type CompanyLegalForm =
+  | 'SA'
+  | 'SAS'
+  | 'SARL'
+  | 'SARLAU'
+  | 'SNC'
+  | 'SCS'
+  | 'SCA'
+  | 'GIE'
+  | 'EI'
+  | 'AE';
+
 /**
- * Result of validating a CIN
+ * Legal identifiers of a company, as entered at onboarding
  */
-export interface ICEValidationResult {
-  /** Whether the ICE is valid */
+export interface CompanyIdentity {
+  /** Identifiant Commun de l'Entreprise */
+  ice?: string;
+  /** Identifiant fiscal */
+  if?: string;
+  /** Registre de commerce number, optionally with its court */
+  rc?: string;
+  /** City of the court keeping the registre de commerce */
+  rcCourt?: string;
+  /** Taxe professionnelle (patente) number */
+  tp?: string;
+  /** CNSS employer affiliation number */
+  cnss?: string;
+  /** Legal form, as an abbreviation ('SARL AU') or in full */
+  legalForm?: string;
+}
+
+export type CompanyIdentityField = keyof CompanyIdentity;
+
+export interface CompanyIdentityError {
+  /** Error code of the identifier's validator, or of a cross-check */
+  code:
+    | CompanyValidationErrorCode
+    | ICEValidationErrorCode
+    | CompanyIdentityErrorCode;
+  /** Human-readable error message */
+  message: string;
+  /** Additional context about the error */
+  details?: Record<string, any>;
+}
+
+/**
+ * Valid identifiers of a company, sanitized
+ */
+export interface SanitizedCompanyIdentity {
+  ice?: string;
+  if?: string;
+  rc?: RCComponents;
+  tp?: string;
+  cnss?: string;
+  legalForm?: CompanyLegalForm;
+}
+
+export interface CompanyIdentityValidationResult {
+  /** Whether all identifiers are valid and consistent */
   isValid: boolean;
-  /** Array of validation errors if any */
-  errors: ICEError[];
-  /** Additional metadata extracted from the ICE */
-  metadata?: {
-    /** Company code */
-    company?: string;
-    /** Company's establishments */
-    establishments?: string;
-    /** Checksum for error detection */
-    checksum?: string;
-  };
+  /** Valid identifiers, sanitized */
+  sanitized: SanitizedCompanyIdentity;
+  /** Errors keyed by the field to correct */
+  errors: Partial<Record<CompanyIdentityField, CompanyIdentityError>>;
 }
+
+/**
+ * Kind of company identifier found in a text
+ */
+export type CompanyIdentifierType = 'ICE' | 'IF' | 'RC' | 'TP' | 'CNSS';
+
+interface CompanyIdentifierMatchBase {
+  /** Matched text, label included (e.g. "I.F. n° 40123456") */
+  match: string;
+  /** Offset of the first character of the match in the text */
+  start: number;
+  /** Offset after the last character of the match in the text */
+  end: number;
+}
+
+/**
+ * A company identifier found in a text, with the result of its validator
+ */
+export type CompanyIdentifierMatch = CompanyIdentifierMatchBase &
+  (
+    | { type: 'ICE'; validation: ICEValidationResult }
+    | { type: 'IF'; validation: IFValidationResult }
+    | { type: 'RC'; validation: RCValidationResult }
+    | { type: 'TP'; validation: TPValidationResult }
+    | { type: 'CNSS'; validation: CNSSValidationResult }
+  );
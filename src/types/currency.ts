@@ -0,0 +1,138 @@
+/**
+ * Language used to write amounts in words
+ */
+export type WordsLanguage = 'fr' | 'ar';
+
+/**
+ * French spelling of numbers: traditional rules, or the 1990 reform which
+ * hyphenates every numeral of a compound number (deux-cent-vingt-et-un)
+ */
+export type FrenchOrthography = 'traditional' | 'reformed';
+
+export interface MADToWordsOptions {
+  /**
+   * Language of the output
+   * @default 'fr'
+   */
+  language?: WordsLanguage;
+
+  /**
+   * Spelling rules used for French output
+   * @default 'traditional'
+   */
+  orthography?: FrenchOrthography;
+}
+
+/**
+ * Arabic forms of a counted noun, which depend on the number it follows
+ */
+export interface ArabicNounForms {
+  /** Used for 1, 100, 1000... and after 101, 102... (e.g. درهم) */
+  singular: string;
+  /** Used for 2 (e.g. درهمان) */
+  dual: string;
+  /** Used for 3 to 10 (e.g. دراهم) */
+  plural: string;
+  /** Used for 11 to 99 (e.g. درهما) */
+  accusative: string;
+}
+
+export interface WordsToMADOptions {
+  /**
+   * Language of the words, detected from the script when omitted
+   */
+  language?: WordsLanguage;
+}
+
+/**
+ * Meaning of a word when reading an amount written in words
+ */
+export type AmountWord =
+  /** A number added to the current group (trois, vingt, ثلاثمائة...) */
+  | { kind: 'number'; value: number }
+  /** cent or مائة, which multiplies the units before it */
+  | { kind: 'hundred' }
+  /**
+   * mille, million, milliard... `count` is set for Arabic duals (ألفان), and
+   * `dualWhenAlone` for forms that are duals only without a count (ألفا)
+   */
+  | { kind: 'scale'; value: number; count?: number; dualWhenAlone?: boolean }
+  /** dirham or centime, closing the number before it */
+  | { kind: 'unit'; unit: 'dirham' | 'centime'; count?: number }
+  | { kind: 'negative' }
+  /** Connectors and other words that carry no value (et, de, فقط...) */
+  | { kind: 'filler' };
+
+/**
+ * Locales supported to format amounts in figures
+ */
+export type MADLocale = 'fr-MA' | 'ar-MA';
+
+/**
+ * Symbols of the Moroccan Dirham
+ */
+export type MADSymbol = 'DH' | 'MAD' | 'د.م.';
+
+export interface MADFormatOptions {
+  /**
+   * Locale of the output: 'fr-MA' groups digits with narrow no-break spaces
+   * (1 234,56), 'ar-MA' with dots (1.234,56)
+   * @default 'fr-MA'
+   */
+  locale?: MADLocale;
+
+  /**
+   * Currency symbol written after the amount
+   * @default 'DH' for 'fr-MA', 'د.م.' for 'ar-MA'
+   */
+  symbol?: MADSymbol;
+
+  /**
+   * Number of decimals, from 0 to 2
+   * @default 2
+   */
+  decimals?: number;
+}
+
+/**
+ * Units amounts are quoted in: 1 dirham = 20 rials = 100 centimes (francs)
+ */
+export type MADUnit = 'dirham' | 'rial' | 'centime';
+
+export interface ColloquialAmountOptions {
+  /**
+   * Unit of amounts stated without one ("20 alf")
+   * @default 'dirham'
+   */
+  defaultUnit?: MADUnit;
+}
+
+/**
+ * An amount read from colloquial phrasing
+ */
+export interface ColloquialAmount {
+  /** Amount in the quoted unit */
+  amount: number;
+  /** Unit the amount is quoted in */
+  unit: MADUnit;
+  /** Whether the unit was not stated and `defaultUnit` was used */
+  isUnitImplied: boolean;
+  /** Amount in dirhams */
+  dirhams: number;
+  /** Amount in centimes, rounded to an integer */
+  centimes: number;
+}
+
+/**
+ * Meaning of a word when reading a colloquial amount
+ */
+export type ColloquialWord =
+  | { kind: 'number'; value: number }
+  /** mya, cent... which multiplies the units before it */
+  | { kind: 'hundred' }
+  /** alf, mlyon... `count` is set for duals (alfayn) */
+  | { kind: 'scale'; value: number; count?: number }
+  /** nss: half of the scale before it, or of the scale after it */
+  | { kind: 'half' }
+  | { kind: 'unit'; unit: MADUnit }
+  | { kind: 'filler' };
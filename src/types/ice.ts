@@ -1,3 +1,28 @@
+// ICE Error codes
+export enum ICEValidationErrorCode {
+  INVALID_INPUT_TYPE = 'ICE_001',
+  INVALID_LENGTH = 'ICE_002',
+  NON_NUMERIC_CHARACTERS = 'ICE_003',
+  INVALID_CONTROL = 'ICE_004',
+}
+
+/**
+ * Rule used to compute the 2-digit control key of an ICE:
+ * - 'official': 97 - ((first 13 digits × 100) mod 97), as issued by the OMPIC
+ * - 'legacy': (first 13 digits) mod 97, the placeholder rule used by earlier
+ *   versions of this library
+ */
+export type ICEControlAlgorithm = 'official' | 'legacy';
+
+export interface ICEValidationOptions {
+  /**
+   * Also accept ICE numbers whose control key follows the legacy placeholder
+   * rule, e.g. numbers generated by earlier versions of this library
+   * @default false
+   */
+  acceptLegacyControl?: boolean;
+}
+
 export interface ICEValidationResult {
   /**
    * Whether the ICE number is valid
@@ -14,6 +39,11 @@ export interface ICEValidationResult {
    */
   components?: ICEComponents;
 
+  /**
+   * Rule the control key matched, when the ICE is valid
+   */
+  controlAlgorithm?: ICEControlAlgorithm;
+
   /**
    * Error details if validation failed
    */
@@ -21,8 +51,8 @@ export interface ICEValidationResult {
 }
 
 export interface ICEValidationError {
-  /** Error code from ICEValidationError enum */
-  code: string;
+  /** Error code from ICEValidationErrorCode enum */
+  code: ICEValidationErrorCode;
   /** Human-readable error message */
   message: string;
   /** Additional context about the error */
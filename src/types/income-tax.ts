@@ -0,0 +1,121 @@
+/**
+ * Period a salary is paid for
+ */
+export type SalaryPeriod = 'monthly' | 'annual';
+
+/**
+ * A bracket of the progressive IR scale, with amounts in centimes per year.
+ * The tax of an income in the bracket is `income × rate / 100 - deduction`.
+ */
+export interface IncomeTaxBracket {
+  /** Upper bound of the bracket (inclusive), or null for the last bracket */
+  upTo: number | null;
+  /** Rate in percent */
+  rate: number;
+  /** Amount deducted from `income × rate`, which makes the scale progressive */
+  deduction: number;
+}
+
+/**
+ * IR rules of a finance law, with amounts in centimes per year
+ */
+export interface IncomeTaxRules {
+  /** First year the rules apply to */
+  year: number;
+  /** Finance law that set the rules (e.g. 'LF 2025') */
+  financeLaw: string;
+  /** Brackets of the scale, from the lowest */
+  brackets: IncomeTaxBracket[];
+  /** Deduction for professional expenses */
+  professionalExpenses: {
+    /** Rates in percent by gross taxable income, from the lowest */
+    rates: Array<{ upTo: number | null; rate: number }>;
+    /** Maximum deduction */
+    cap: number;
+  };
+  /** Deduction from the tax for family charges (spouse and children) */
+  familyCharges: {
+    /** Deduction per dependent */
+    perDependent: number;
+    /** Maximum number of dependents taken into account */
+    maxDependents: number;
+  };
+}
+
+export interface IncomeTaxOptions {
+  /**
+   * Year of the salary, which selects the rules of its finance law
+   * @default the current year
+   */
+  year?: number;
+
+  /**
+   * Period of the salary and of the returned tax
+   * @default 'monthly'
+   */
+  period?: SalaryPeriod;
+
+  /**
+   * Number of dependents (spouse and children)
+   * @default 0
+   */
+  dependents?: number;
+
+  /**
+   * Employee social contributions for the period (CNSS, AMO, pension), in
+   * centimes, which are deducted from the taxable income
+   * @default 0
+   */
+  socialContributions?: number;
+}
+
+/**
+ * Steps of an IR computation, with amounts in centimes per year
+ */
+export interface IncomeTaxTrace {
+  /** Gross taxable income */
+  grossIncome: number;
+  /** Deduction for professional expenses */
+  professionalExpenses: {
+    /** Rate applied, in percent */
+    rate: number;
+    /** Maximum deduction */
+    cap: number;
+    /** Deduction */
+    amount: number;
+  };
+  /** Employee social contributions */
+  socialContributions: number;
+  /** Net taxable income */
+  netTaxableIncome: number;
+  /** Bracket of the net taxable income */
+  bracket: IncomeTaxBracket;
+  /** Tax before the deduction for family charges */
+  grossTax: number;
+  /** Deduction for family charges, limited to the gross tax */
+  familyCharges: {
+    /** Dependents taken into account */
+    dependents: number;
+    /** Deduction per dependent */
+    perDependent: number;
+    /** Deduction */
+    amount: number;
+  };
+  /** Tax for the year */
+  annualTax: number;
+}
+
+export interface IncomeTaxResult {
+  /** Year of the salary */
+  year: number;
+  /** Finance law of the rules applied */
+  financeLaw: string;
+  /** Period of the salary and of the tax */
+  period: SalaryPeriod;
+  /** Gross taxable salary for the period, in centimes */
+  grossSalary: number;
+  /** IR withheld for the period, in centimes */
+  incomeTax: number;
+  /** Steps of the computation */
+  trace: IncomeTaxTrace;
+}
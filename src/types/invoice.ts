@@ -0,0 +1,123 @@
+// Invoice error codes
+export enum InvoiceValidationErrorCode {
+  INVALID_INPUT_TYPE = 'INVOICE_001',
+  MISSING_MENTION = 'INVOICE_002',
+  INVALID_MENTION = 'INVOICE_003',
+  INCONSISTENT_TOTALS = 'INVOICE_004',
+}
+
+/**
+ * Legal identifiers of the seller of an invoice
+ */
+export interface InvoiceSeller {
+  name?: string;
+  /** Identifiant Commun de l'Entreprise */
+  ice?: string;
+  /** Identifiant fiscal */
+  if?: string;
+  /** Registre de commerce number, optionally with its court */
+  rc?: string;
+  /** City of the court keeping the registre de commerce */
+  rcCourt?: string;
+  /** Taxe professionnelle (patente) number */
+  tp?: string;
+}
+
+/**
+ * Buyer of an invoice
+ */
+export interface InvoiceBuyer {
+  name?: string;
+  /** Identifiant Commun de l'Entreprise, required for businesses */
+  ice?: string;
+  /**
+   * Whether the buyer is a business (B2B invoice)
+   * @default true
+   */
+  isBusiness?: boolean;
+}
+
+/**
+ * Totals of an invoice for one TVA rate, in centimes
+ */
+export interface InvoiceRateTotal {
+  /** TVA rate in percent (0 for exempt operations) */
+  rate: number;
+  /** Total excluding tax (HT) */
+  exclTax: number;
+  /** TVA amount */
+  vat: number;
+  /**
+   * Number of invoice lines at this rate whose TVA was rounded one by one,
+   * which bounds the rounding difference allowed on the TVA
+   */
+  lines?: number;
+}
+
+/**
+ * Totals of an invoice, in centimes
+ */
+export interface InvoiceTotals {
+  /** Total excluding tax (HT) */
+  exclTax?: number;
+  /** Total TVA */
+  vat?: number;
+  /** Total including tax (TTC) */
+  inclTax?: number;
+  /** Totals by TVA rate */
+  byRate?: InvoiceRateTotal[];
+}
+
+/**
+ * An invoice, as far as its legal mentions are concerned
+ */
+export interface Invoice {
+  /** Invoice number, from a continuous sequence */
+  number?: string;
+  /** Issue date, as a Date or a YYYY-MM-DD string */
+  date?: Date | string;
+  seller?: InvoiceSeller;
+  buyer?: InvoiceBuyer;
+  totals?: InvoiceTotals;
+  /** Payment terms (e.g. "30 jours fin de mois") */
+  paymentTerms?: string;
+  /** Payment due date (Date or YYYY-MM-DD), which may stand for the payment terms */
+  dueDate?: Date | string;
+}
+
+/**
+ * Legal mention of an invoice
+ */
+export type InvoiceMention =
+  | 'invoice'
+  | 'number'
+  | 'date'
+  | 'seller.ice'
+  | 'seller.if'
+  | 'seller.rc'
+  | 'seller.tp'
+  | 'buyer.ice'
+  | 'totals'
+  | 'totals.byRate'
+  | 'paymentTerms';
+
+/**
+ * A missing or invalid mention of an invoice
+ */
+export interface InvoiceIssue {
+  /** The mention to correct */
+  mention: InvoiceMention;
+  /** Error code from InvoiceValidationErrorCode enum */
+  code: InvoiceValidationErrorCode;
+  /** Human-readable error message */
+  message: string;
+  /** Additional context, such as the error of the identifier's validator */
+  details?: Record<string, any>;
+}
+
+export interface InvoiceCheckResult {
+  /** Whether the invoice carries all the mentions required by tax law */
+  isCompliant: boolean;
+  /** Missing or invalid mentions, in the order of the invoice */
+  issues: InvoiceIssue[];
+}
@@ -0,0 +1,100 @@
+import type { IncomeTaxResult } from './income-tax';
+
+/**
+ * Contribution on a salary:
+ * - 'socialBenefits': CNSS short-term benefits (prestations sociales, including
+ *   the loss of employment allowance), on the salary up to the CNSS ceiling
+ * - 'familyAllowances': CNSS family allowances (allocations familiales)
+ * - 'amo': compulsory health insurance (assurance maladie obligatoire)
+ * - 'amoParticipation': employer participation in AMO
+ * - 'trainingTax': taxe de formation professionnelle
+ */
+export type PayrollContributionName =
+  | 'socialBenefits'
+  | 'familyAllowances'
+  | 'amo'
+  | 'amoParticipation'
+  | 'trainingTax';
+
+/**
+ * Rates of a contribution, in basis points (448 for 4.48%)
+ */
+export interface PayrollContributionRate {
+  name: PayrollContributionName;
+  /** Rate in basis points */
+  rate: number;
+  /** Whether the contribution is only due up to the CNSS ceiling */
+  capped: boolean;
+}
+
+/**
+ * Contribution rates in force from a date
+ */
+export interface PayrollRates {
+  /** First day the rates apply to (YYYY-MM-DD) */
+  effectiveFrom: string;
+  /** Monthly CNSS salary ceiling, in centimes */
+  cnssCeiling: number;
+  /** Contributions withheld from the salary */
+  employee: PayrollContributionRate[];
+  /** Contributions paid by the employer on top of the salary */
+  employer: PayrollContributionRate[];
+}
+
+export interface PayrollOptions {
+  /**
+   * Date of the payslip, which selects the contribution rates and the IR rules
+   * @default today
+   */
+  date?: Date | string;
+
+  /**
+   * Number of dependents (spouse and children) for IR
+   * @default 0
+   */
+  dependents?: number;
+}
+
+/**
+ * A contribution on a salary, with amounts in centimes
+ */
+export interface PayrollContribution {
+  name: PayrollContributionName;
+  /** Salary the rate applies to */
+  base: number;
+  /** Rate in basis points */
+  rate: number;
+  /** Contribution */
+  amount: number;
+}
+
+/**
+ * Contributions of the employee or of the employer, in centimes
+ */
+export interface PayrollContributions {
+  contributions: PayrollContribution[];
+  /** Total of the contributions */
+  total: number;
+}
+
+/**
+ * A monthly payslip, with amounts in centimes
+ */
+export interface PayrollResult {
+  /** Date of the payslip (YYYY-MM-DD) */
+  date: string;
+  /** Date the contribution rates applied are in force from */
+  ratesEffectiveFrom: string;
+  /** Gross monthly salary */
+  grossSalary: number;
+  /** Contributions withheld from the salary */
+  employee: PayrollContributions;
+  /** Contributions paid by the employer */
+  employer: PayrollContributions;
+  /** IR withheld, with its computation trace */
+  incomeTax: IncomeTaxResult;
+  /** Net salary paid to the employee */
+  netSalary: number;
+  /** Total cost of the salary for the employer */
+  employerCost: number;
+}
@@ -0,0 +1,104 @@
+/**
+ * TVA rate in percent; 0 stands for exempt operations
+ */
+export type VATRate = 20 | 14 | 10 | 7 | 0;
+
+/**
+ * Whether TVA is rounded on each line then added up, or computed once on the
+ * total of each rate
+ */
+export type VATRounding = 'line' | 'invoice';
+
+/**
+ * Whether prices exclude tax (HT) or include it (TTC)
+ */
+export type VATPriceBasis = 'exclTax' | 'inclTax';
+
+/**
+ * Amounts of an operation, in centimes
+ */
+export interface VATAmounts {
+  /** TVA rate in percent */
+  rate: VATRate;
+  /** Amount excluding tax (HT) */
+  exclTax: number;
+  /** TVA amount */
+  vat: number;
+  /** Amount including tax (TTC) */
+  inclTax: number;
+}
+
+/**
+ * A line of an invoice
+ */
+export interface VATLine {
+  /** Unit price in centimes, excluding or including tax depending on the options */
+  unitPrice: number;
+  /**
+   * Quantity, which may be fractional (e.g. 1.5 kg)
+   * @default 1
+   */
+  quantity?: number;
+  /** TVA rate in percent */
+  rate: VATRate;
+}
+
+export interface VATInvoiceOptions {
+  /**
+   * Where TVA is rounded: on each line, or on the total of each rate
+   * @default 'invoice'
+   */
+  rounding?: VATRounding;
+
+  /**
+   * Whether unit prices exclude or include tax
+   * @default 'exclTax'
+   */
+  prices?: VATPriceBasis;
+}
+
+/**
+ * TVA of an invoice broken down by rate, in centimes
+ */
+export interface VATBreakdown {
+  /** Totals by rate, from the highest rate */
+  byRate: VATAmounts[];
+  /** Total excluding tax (HT) */
+  exclTax: number;
+  /** Total TVA */
+  vat: number;
+  /** Total including tax (TTC) */
+  inclTax: number;
+}
+
+/**
+ * Deductible part of TVA under the prorata rule, in centimes
+ */
+export interface VATDeduction {
+  /** Deduction prorata in percent, rounded up to the next whole percent */
+  prorata: number;
+  /** Deductible TVA */
+  deductible: number;
+  /** TVA that cannot be deducted */
+  nonDeductible: number;
+}
+
+/**
+ * Amounts of an operation, formatted for display
+ */
+export interface FormattedVATAmounts {
+  rate: VATRate;
+  exclTax: string;
+  vat: string;
+  inclTax: string;
+}
+
+/**
+ * TVA breakdown of an invoice, formatted for display
+ */
+export interface FormattedVATBreakdown {
+  byRate: FormattedVATAmounts[];
+  exclTax: string;
+  vat: string;
+  inclTax: string;
+}
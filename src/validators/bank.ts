@@ -1,19 +1,21 @@
 import { MOROCCAN_BANKS } from '../constants/banks';
-import type { BankDetails } from '../types/bank';
-
-// Add error codes enum at the top of the file
-export enum BankValidationError {
-  INVALID_INPUT_TYPE = 'BANK_001',
-  INVALID_IBAN_FORMAT = 'BANK_002',
-  INVALID_BANK_CODE = 'BANK_003',
-  INVALID_IBAN_CHECKSUM = 'BANK_004',
-  INVALID_RIB_FORMAT = 'BANK_005',
-  INVALID_RIB_LENGTH = 'BANK_006',
-  INVALID_RIB_CHECKSUM = 'BANK_007',
-  BANK_NOT_FOUND = 'BANK_008',
-  INVALID_AMOUNT = 'BANK_009',
-  BRANCH_NOT_FOUND = 'BANK_010',
-}
+import {
+  BankValidationError,
+  type BankDetails,
+  type BankError,
+  type BICLookupResult,
+  type BICValidationResult,
+  type IBANValidationResult,
+  type RIBComponents,
+  type RIBGenerationOptions,
+  type RIBValidationResult,
+} from '../types/bank';
+import { generateRandomDigits } from './ice';
+
+// madToWords lives in the currency module; re-exported for backward compatibility
+export { madToWords } from './currency';
+
+export { BankValidationError };
 
 // Custom error class
 export class BankValidationException extends Error {
@@ -28,21 +30,48 @@ export class BankValidationException extends Error {
 }
 
 /**
- * Validates a given IBAN (International Bank Account Number) for Moroccan banks.
- *
- * @param iban - The IBAN string to validate.
- * @returns `true` if the IBAN is valid, `false` otherwise.
- * @throws {TypeError} If the provided IBAN is not a string.
+ * Validates a Moroccan IBAN (International Bank Account Number) and returns
+ * a detailed result.
  *
  * The function performs the following checks:
  * 1. Ensures the IBAN is a string.
  * 2. Removes any whitespace and converts the IBAN to uppercase.
  * 3. Checks if the IBAN matches the Moroccan IBAN format (starts with 'MA' followed by 26 digits).
  * 4. Extracts the bank code and verifies it against a list of active Moroccan banks.
- * 5. Rearranges the IBAN and converts it to a numeric string for the MOD 97-10 check.
+ * 5. Checks the IBAN against the bank-specific format.
  * 6. Performs the MOD 97-10 check to validate the IBAN.
+ *
+ * @param iban - The IBAN string to validate
+ * @returns Validation result with the sanitized IBAN, its components and bank details
+ *
+ * @example
+ * ```typescript
+ * validateIBAN('MA64 0071 0800 0779 2000 3031 2071');
+ * // Returns {
+ * //   isValid: true,
+ * //   sanitized: 'MA64007108000779200030312071',
+ * //   components: {
+ * //     countryCode: 'MA',
+ * //     checkDigits: '64',
+ * //     bankCode: '007',
+ * //     branchCode: '10800',
+ * //     accountNumber: '07792000303120',
+ * //     ribKey: '71',
+ * //   },
+ * //   bank: { code: '007', name: 'Attijariwafa Bank', ... }
+ * // }
+ *
+ * validateIBAN('MA64 0071 0800 0779 2000 3031 2072');
+ * // Returns {
+ * //   isValid: false,
+ * //   sanitized: 'MA64007108000779200030312072',
+ * //   error: { code: BankValidationError.INVALID_IBAN_CHECKSUM, ... }
+ * // }
+ * ```
  */
-export function isValidIBAN(iban: string): boolean {
+export function validateIBAN(iban: string): IBANValidationResult {
+  let sanitized = '';
+
   try {
     if (typeof iban !== 'string') {
       throw new BankValidationException(
@@ -52,17 +81,17 @@ export function isValidIBAN(iban: string): boolean {
       );
     }
 
-    const cleanIBAN = iban.replace(/\s/g, '').toUpperCase();
+    sanitized = iban.replace(/\s/g, '').toUpperCase();
 
-    if (!/^MA\d{26}$/.test(cleanIBAN)) {
+    if (!/^MA\d{26}$/.test(sanitized)) {
       throw new BankValidationException(
         BankValidationError.INVALID_IBAN_FORMAT,
         'Invalid IBAN format',
-        { iban: cleanIBAN }
+        { iban: sanitized }
       );
     }
 
-    const bankCode = cleanIBAN.substring(4, 7);
+    const bankCode = sanitized.substring(4, 7);
     const bank = MOROCCAN_BANKS.find(b => b.code === bankCode && b.active);
 
     if (!bank) {
@@ -73,59 +102,168 @@ export function isValidIBAN(iban: string): boolean {
       );
     }
 
-    if (!bank.ibanRegex.test(cleanIBAN)) {
+    if (!bank.ibanRegex.test(sanitized)) {
       throw new BankValidationException(
         BankValidationError.INVALID_IBAN_FORMAT,
         'IBAN does not match bank-specific format',
-        { bankCode, iban: cleanIBAN }
+        { bankCode, iban: sanitized }
       );
     }
 
-    const rearranged = cleanIBAN.slice(4) + cleanIBAN.slice(0, 4);
-    const numeric = rearranged
-      .split('')
-      .map(c => (/\d/.test(c) ? c : (c.charCodeAt(0) - 55).toString()))
-      .join('');
+    const rearranged = sanitized.slice(4) + sanitized.slice(0, 4);
 
-    let remainder = 0;
-    for (let i = 0; i < numeric.length; i++) {
-      remainder = (remainder * 10 + parseInt(numeric[i])) % 97;
-    }
-
-    if (remainder !== 1) {
+    if (mod97(toNumericString(rearranged)) !== 1) {
       throw new BankValidationException(
         BankValidationError.INVALID_IBAN_CHECKSUM,
         'Invalid IBAN checksum',
-        { iban: cleanIBAN }
+        { iban: sanitized }
       );
     }
 
-    return true;
+    return {
+      isValid: true,
+      sanitized,
+      components: {
+        countryCode: sanitized.substring(0, 2),
+        checkDigits: sanitized.substring(2, 4),
+        ...splitRIB(sanitized.slice(4), bank),
+      },
+      bank,
+    };
   } catch (error) {
     if (error instanceof BankValidationException) {
-      // You can log the error here if needed
-      console.error(`Bank validation error: ${error.code} - ${error.message}`);
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      };
     }
-    return false;
+    return {
+      isValid: false,
+      sanitized,
+      error: {
+        code: BankValidationError.INVALID_INPUT_TYPE,
+        message: 'Unexpected validation error',
+      },
+    };
   }
 }
 
 /**
- * Validates a Moroccan RIB (Relevé d'Identité Bancaire).
+ * Quick check to determine if a string is a valid Moroccan IBAN
+ *
+ * @param iban - The IBAN string to check
+ * @returns `true` if the IBAN is valid, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * isValidIBAN('MA64 0071 0800 0779 2000 3031 2071'); // Returns true
+ * isValidIBAN('FR76 1152 0111 1111 1111 1111 1111'); // Returns false
+ * ```
+ */
+export function isValidIBAN(iban: string): boolean {
+  return validateIBAN(iban).isValid;
+}
+
+/**
+ * Splits the RIB part of an account number into its components according
+ * to the bank's account format
+ */
+function splitRIB(rib: string, bank: BankDetails): RIBComponents {
+  const { bankCode, branchCode, accountNumber, ribKey } = bank.accountFormat;
+  const branchStart = bankCode;
+  const accountStart = branchStart + branchCode;
+  const keyStart = accountStart + accountNumber;
+
+  return {
+    bankCode: rib.substring(0, branchStart),
+    branchCode: rib.substring(branchStart, accountStart),
+    accountNumber: rib.substring(accountStart, keyStart),
+    ribKey: rib.substring(keyStart, keyStart + ribKey),
+  };
+}
+
+/**
+ * Converts letters to their numeric IBAN representation (A = 10, ..., Z = 35)
+ */
+function toNumericString(value: string): string {
+  return value
+    .split('')
+    .map(c => (/\d/.test(c) ? c : (c.charCodeAt(0) - 55).toString()))
+    .join('');
+}
+
+/**
+ * Computes the remainder of a numeric string of arbitrary length divided by 97
+ */
+function mod97(numeric: string): number {
+  let remainder = 0;
+  for (let i = 0; i < numeric.length; i++) {
+    remainder = (remainder * 10 + parseInt(numeric[i], 10)) % 97;
+  }
+  return remainder;
+}
+
+/**
+ * Validates a Moroccan RIB (Relevé d'Identité Bancaire) and returns a detailed result.
  *
  * This function checks if the provided RIB is valid by performing the following steps:
  * 1. Cleans the RIB by removing spaces and hyphens.
  * 2. Extracts the bank code and verifies it against a list of active Moroccan banks.
  * 3. Checks the length and format of the RIB against bank-specific rules.
- * 4. Calculates the expected key using the MOD 97-10 algorithm and compares it with the actual key.
+ * 4. Calculates the expected key (97 - (payload × 100 mod 97)) and compares it with the actual key.
+ *
+ * When only the key is wrong, the result still carries the parsed components
+ * together with the expected and actual keys.
+ *
+ * @param rib - The RIB string to validate
+ * @returns Validation result with the sanitized RIB, its components and bank details
+ *
+ * @example
+ * ```typescript
+ * validateRIB('007 10800 07792000303120 71');
+ * // Returns {
+ * //   isValid: true,
+ * //   sanitized: '007108000779200030312071',
+ * //   components: {
+ * //     bankCode: '007',
+ * //     branchCode: '10800',
+ * //     accountNumber: '07792000303120',
+ * //     ribKey: '71',
+ * //   },
+ * //   bank: { code: '007', name: 'Attijariwafa Bank', ... },
+ * //   expectedKey: '71',
+ * //   actualKey: '71',
+ * // }
  *
- * @param rib - The RIB string to validate.
- * @returns `true` if the RIB is valid, `false` otherwise.
+ * validateRIB('007 10800 07792000303120 17');
+ * // Returns {
+ * //   isValid: false,
+ * //   ...
+ * //   expectedKey: '71',
+ * //   actualKey: '17',
+ * //   error: { code: BankValidationError.INVALID_RIB_CHECKSUM, ... }
+ * // }
+ * ```
  */
-export function isValidRIB(rib: string): boolean {
+export function validateRIB(rib: string): RIBValidationResult {
+  let sanitized = '';
+
   try {
-    const cleanRIB = rib.replace(/[\s-]/g, '');
-    const bankCode = cleanRIB.substring(0, 3);
+    if (typeof rib !== 'string') {
+      throw new BankValidationException(
+        BankValidationError.INVALID_INPUT_TYPE,
+        'RIB must be a string',
+        { providedType: typeof rib }
+      );
+    }
+
+    sanitized = rib.replace(/[\s-]/g, '');
+    const bankCode = sanitized.substring(0, 3);
     const bank = MOROCCAN_BANKS.find(b => b.code === bankCode && b.active);
 
     if (!bank) {
@@ -136,60 +274,283 @@ export function isValidRIB(rib: string): boolean {
       );
     }
 
-    if (cleanRIB.length !== bank.ribLength) {
+    if (sanitized.length !== bank.ribLength) {
       throw new BankValidationException(
         BankValidationError.INVALID_RIB_LENGTH,
         'Invalid RIB length',
         {
           expected: bank.ribLength,
-          received: cleanRIB.length,
+          received: sanitized.length,
         }
       );
     }
 
-    if (!bank.ribRegex.test(cleanRIB)) {
+    if (!bank.ribRegex.test(sanitized)) {
       throw new BankValidationException(
         BankValidationError.INVALID_RIB_FORMAT,
         'RIB does not match bank-specific format',
-        { bankCode, rib: cleanRIB }
+        { bankCode, rib: sanitized }
       );
     }
 
-    const payload = cleanRIB.slice(0, -2);
-    const actualKey = parseInt(cleanRIB.slice(-2), 10);
-
-    const chunks = [];
-    for (let i = 0; i < payload.length; i += 7) {
-      chunks.push(parseInt(payload.slice(i, i + 7), 10));
-    }
-
-    let remainder = 0;
-    for (const chunk of chunks) {
-      remainder =
-        (remainder * Math.pow(10, chunk.toString().length) + chunk) % 97;
-    }
-
-    const expectedKey = (97 - remainder) % 97;
+    const components = splitRIB(sanitized, bank);
+    const expectedKey = computeRIBKey(sanitized.slice(0, -2));
+    const actualKey = components.ribKey;
 
     if (expectedKey !== actualKey) {
-      throw new BankValidationException(
-        BankValidationError.INVALID_RIB_CHECKSUM,
-        'Invalid RIB checksum',
-        {
-          expected: expectedKey,
-          actual: actualKey,
-          rib: cleanRIB,
-        }
-      );
+      return {
+        isValid: false,
+        sanitized,
+        components,
+        bank,
+        expectedKey,
+        actualKey,
+        error: {
+          code: BankValidationError.INVALID_RIB_CHECKSUM,
+          message: 'Invalid RIB checksum',
+          details: {
+            expected: expectedKey,
+            actual: actualKey,
+            rib: sanitized,
+          },
+        },
+      };
     }
 
-    return true;
+    return {
+      isValid: true,
+      sanitized,
+      components,
+      bank,
+      expectedKey,
+      actualKey,
+    };
   } catch (error) {
     if (error instanceof BankValidationException) {
-      console.error(`Bank validation error: ${error.code} - ${error.message}`);
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      };
     }
-    return false;
+    return {
+      isValid: false,
+      sanitized,
+      error: {
+        code: BankValidationError.INVALID_INPUT_TYPE,
+        message: 'Unexpected validation error',
+      },
+    };
+  }
+}
+
+/**
+ * Quick check to determine if a string is a valid Moroccan RIB
+ *
+ * @param rib - The RIB string to check
+ * @returns `true` if the RIB is valid, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * isValidRIB('007 10800 07792000303120 71'); // Returns true
+ * isValidRIB('007 10800 07792000303120 17'); // Returns false
+ * ```
+ */
+export function isValidRIB(rib: string): boolean {
+  return validateRIB(rib).isValid;
+}
+
+/**
+ * Computes the two-digit RIB key of a payload (the RIB without its key)
+ *
+ * The key is 97 - (payload × 100 mod 97), so that appending it to the payload
+ * yields a number divisible by 97.
+ *
+ * @param payload - Bank code, branch code and account number, digits only
+ * @returns The two-digit RIB key
+ * @throws {BankValidationException} If the payload is not a string of digits
+ *
+ * @example
+ * ```typescript
+ * computeRIBKey('0071080007792000303120'); // Returns '71'
+ * ```
+ */
+export function computeRIBKey(payload: string): string {
+  if (typeof payload !== 'string' || !/^\d+$/.test(payload)) {
+    throw new BankValidationException(
+      BankValidationError.INVALID_RIB_FORMAT,
+      'RIB payload must contain only digits',
+      { payload }
+    );
   }
+
+  return String(97 - mod97(`${payload}00`)).padStart(2, '0');
+}
+
+/**
+ * Generates a checksum-valid RIB for testing purposes.
+ *
+ * The account number is random; the bank and branch codes can be fixed through
+ * the options. Component lengths follow the bank's AccountFormat.
+ *
+ * @param options - Generation options:
+ *   - bankCode: Bank code from MOROCCAN_BANKS (default: random active bank).
+ *   - branchCode: Branch (locality) code (default: random digits).
+ * @returns A valid RIB
+ * @throws {BankValidationException} If the bank is unknown or the branch code does not fit the bank format
+ *
+ * @example
+ * ```typescript
+ * generateTestRIB(); // Returns a random RIB like '011780000123456789012386'
+ * generateTestRIB({ bankCode: '007', branchCode: '78000' }); // Returns '00778000...'
+ * ```
+ */
+export function generateTestRIB(options: RIBGenerationOptions = {}): string {
+  const activeBanks = MOROCCAN_BANKS.filter(b => b.active);
+  const bank = options.bankCode
+    ? activeBanks.find(b => b.code === options.bankCode)
+    : activeBanks[Math.floor(Math.random() * activeBanks.length)];
+
+  if (!bank) {
+    throw new BankValidationException(
+      BankValidationError.BANK_NOT_FOUND,
+      'Invalid or inactive bank code',
+      { bankCode: options.bankCode }
+    );
+  }
+
+  const { branchCode: branchLength, accountNumber } = bank.accountFormat;
+  const branchCode = options.branchCode ?? generateRandomDigits(branchLength);
+
+  if (branchCode.length !== branchLength || !/^\d+$/.test(branchCode)) {
+    throw new BankValidationException(
+      BankValidationError.INVALID_RIB_FORMAT,
+      `Branch code must be exactly ${branchLength} digits`,
+      { bankCode: bank.code, branchCode }
+    );
+  }
+
+  const payload = `${bank.code}${branchCode}${generateRandomDigits(accountNumber)}`;
+
+  return `${payload}${computeRIBKey(payload)}`;
+}
+
+/**
+ * Generates a checksum-valid IBAN for testing purposes.
+ *
+ * Uses {@link generateTestRIB} and converts the result with {@link ribToIBAN},
+ * so both the IBAN check digits and the embedded RIB key are valid.
+ *
+ * @param options - Same options as {@link generateTestRIB}
+ * @returns A valid IBAN in electronic format
+ * @throws {BankValidationException} If the RIB cannot be generated or converted
+ *
+ * @example
+ * ```typescript
+ * generateTestIBAN({ bankCode: '011' }); // Returns an IBAN like 'MA64011780000123456789012386'
+ * ```
+ */
+export function generateTestIBAN(options: RIBGenerationOptions = {}): string {
+  return ribToIBAN(generateTestRIB(options));
+}
+
+/**
+ * Converts a Moroccan RIB to its IBAN equivalent.
+ *
+ * The RIB is validated first (bank, length, bank-specific format and RIB key),
+ * then prefixed with 'MA' and the IBAN check digits computed with MOD 97-10.
+ *
+ * @param rib - The RIB to convert (spaces and hyphens are ignored)
+ * @returns The IBAN in electronic format (no spaces)
+ * @throws {BankValidationException} If the RIB is invalid or the resulting IBAN
+ * does not match the bank-specific format
+ *
+ * @example
+ * ```typescript
+ * ribToIBAN('007 10800 07792000303120 71'); // Returns 'MA64007108000779200030312071'
+ * ribToIBAN('007 10800 07792000303120 17'); // Throws BankValidationException (BANK_007)
+ * ```
+ */
+export function ribToIBAN(rib: string): string {
+  const validation = validateRIB(rib);
+  if (!validation.isValid) {
+    throw toBankValidationException(validation.error);
+  }
+
+  const { sanitized, bank } = validation;
+  if (!bank) {
+    throw new BankValidationException(
+      BankValidationError.BANK_NOT_FOUND,
+      'Bank not found or inactive',
+      { bankCode: sanitized.substring(0, 3) }
+    );
+  }
+
+  const iban = `MA${calculateIBANCheckDigits(sanitized)}${sanitized}`;
+
+  if (!bank.ibanRegex.test(iban)) {
+    throw new BankValidationException(
+      BankValidationError.INVALID_IBAN_FORMAT,
+      'IBAN does not match bank-specific format',
+      { bankCode: bank.code, iban }
+    );
+  }
+
+  return iban;
+}
+
+/**
+ * Converts a Moroccan IBAN to its RIB equivalent.
+ *
+ * Both the IBAN check digits and the RIB key embedded in the IBAN are verified.
+ *
+ * @param iban - The IBAN to convert (spaces are ignored, case-insensitive)
+ * @returns The 24-digit RIB
+ * @throws {BankValidationException} If the IBAN or its embedded RIB is invalid
+ *
+ * @example
+ * ```typescript
+ * ibanToRIB('MA64 0071 0800 0779 2000 3031 2071'); // Returns '007108000779200030312071'
+ * ibanToRIB('MA65 0071 0800 0779 2000 3031 2071'); // Throws BankValidationException (BANK_004)
+ * ```
+ */
+export function ibanToRIB(iban: string): string {
+  const ibanValidation = validateIBAN(iban);
+  if (!ibanValidation.isValid) {
+    throw toBankValidationException(ibanValidation.error);
+  }
+
+  const ribValidation = validateRIB(ibanValidation.sanitized.slice(4));
+  if (!ribValidation.isValid) {
+    throw toBankValidationException(ribValidation.error);
+  }
+
+  return ribValidation.sanitized;
+}
+
+/**
+ * Calculates the two IBAN check digits of a Moroccan BBAN (the RIB) with MOD 97-10
+ */
+function calculateIBANCheckDigits(bban: string): string {
+  const remainder = mod97(toNumericString(`${bban}MA00`));
+  return String(98 - remainder).padStart(2, '0');
+}
+
+/**
+ * Rebuilds the exception described by a validation result error
+ */
+function toBankValidationException(
+  error: BankError | undefined
+): BankValidationException {
+  return new BankValidationException(
+    error?.code ?? BankValidationError.INVALID_INPUT_TYPE,
+    error?.message ?? 'Unexpected validation error',
+    error?.details
+  );
 }
 
 export function getBankDetails(code: string): BankDetails | undefined {
@@ -257,133 +618,155 @@ export function getSwiftCode(
 }
 
 /**
- * Converts a given amount in Moroccan Dirhams (MAD) to its French words representation.
+ * Validates the structure of a Moroccan SWIFT/BIC code.
+ *
+ * A BIC is made of a 4-letter institution code, the 2-letter country code
+ * (which must be 'MA'), a 2-character location code and an optional
+ * 3-character branch code.
  *
- * @param amount - The amount in Moroccan Dirhams to be converted.
- * @returns The French words representation of the given amount.
+ * @param bic - The BIC to validate
+ * @returns Validation result with the sanitized BIC and its components
  *
  * @example
  * ```typescript
- * madToWords(1234); // "mille deux cent trente-quatre dirhams"
- * madToWords(0); // "zéro dirhams"
- * madToWords(-45.67); // "moins quarante-cinq dirhams et soixante-sept centimes"
+ * validateBIC('BCPOMAMCFES');
+ * // Returns {
+ * //   isValid: true,
+ * //   sanitized: 'BCPOMAMCFES',
+ * //   components: { institution: 'BCPO', country: 'MA', location: 'MC', branch: 'FES' }
+ * // }
+ *
+ * validateBIC('BNPAFRPP');
+ * // Returns {
+ * //   isValid: false,
+ * //   sanitized: 'BNPAFRPP',
+ * //   error: { code: BankValidationError.INVALID_BIC_COUNTRY, ... }
+ * // }
  * ```
  */
-export function madToWords(amount: number): string {
+export function validateBIC(bic: string): BICValidationResult {
+  let sanitized = '';
+
   try {
-    if (typeof amount !== 'number' || isNaN(amount)) {
+    if (typeof bic !== 'string') {
       throw new BankValidationException(
-        BankValidationError.INVALID_AMOUNT,
-        'Amount must be a valid number',
-        { providedAmount: amount }
+        BankValidationError.INVALID_INPUT_TYPE,
+        'BIC must be a string',
+        { providedType: typeof bic }
       );
     }
 
-    const units = [
-      '',
-      'un',
-      'deux',
-      'trois',
-      'quatre',
-      'cinq',
-      'six',
-      'sept',
-      'huit',
-      'neuf',
-    ];
-    const teens = [
-      'dix',
-      'onze',
-      'douze',
-      'treize',
-      'quatorze',
-      'quinze',
-      'seize',
-      'dix-sept',
-      'dix-huit',
-      'dix-neuf',
-    ];
-    const tens = [
-      '',
-      'dix',
-      'vingt',
-      'trente',
-      'quarante',
-      'cinquante',
-      'soixante',
-      'soixante-dix',
-      'quatre-vingt',
-      'quatre-vingt-dix',
-    ];
-
-    const convertLessThanThousand = (n: number): string => {
-      let result = '';
-      if (n >= 100) {
-        result += (n >= 200 ? units[Math.floor(n / 100)] + ' ' : '') + 'cent';
-        n %= 100;
-        if (n > 0) result += ' ';
-      }
-
-      if (n >= 80 && n < 100) {
-        result += 'quatre-vingt' + (n === 80 ? '' : '-' + units[n - 80]);
-      } else if (n >= 20) {
-        result += tens[Math.floor(n / 10)];
-        if (n % 10 > 0) result += '-' + units[n % 10];
-      } else if (n >= 10) {
-        result += teens[n - 10];
-      } else if (n > 0) {
-        result += units[n];
-      }
-
-      return result;
-    };
+    sanitized = bic.replace(/\s/g, '').toUpperCase();
+    const match = sanitized.match(
+      /^([A-Z]{4})([A-Z]{2})([A-Z0-9]{2})([A-Z0-9]{3})?$/
+    );
 
-    if (amount === 0) return 'zéro dirhams';
-    let result = '';
-    const isNegative = amount < 0;
-    amount = Math.abs(amount);
+    if (!match) {
+      throw new BankValidationException(
+        BankValidationError.INVALID_BIC_FORMAT,
+        'Invalid BIC format',
+        { bic: sanitized }
+      );
+    }
 
-    const whole = Math.floor(amount);
-    const cents = Math.round((amount - whole) * 100);
+    const [, institution, country, location, branch] = match;
 
-    if (whole > 0) {
-      const millions = Math.floor(whole / 1_000_000);
-      const thousands = Math.floor((whole % 1_000_000) / 1_000);
-      const remainder = whole % 1_000;
+    if (country !== 'MA') {
+      throw new BankValidationException(
+        BankValidationError.INVALID_BIC_COUNTRY,
+        'BIC country code must be MA',
+        { country }
+      );
+    }
 
-      if (millions > 0) {
-        result +=
-          convertLessThanThousand(millions) +
-          ' million' +
-          (millions > 1 ? 's ' : ' ');
-      }
+    return {
+      isValid: true,
+      sanitized,
+      components: {
+        institution,
+        country,
+        location,
+        ...(branch ? { branch } : {}),
+      },
+    };
+  } catch (error) {
+    if (error instanceof BankValidationException) {
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      };
+    }
+    return {
+      isValid: false,
+      sanitized,
+      error: {
+        code: BankValidationError.INVALID_INPUT_TYPE,
+        message: 'Unexpected validation error',
+      },
+    };
+  }
+}
 
-      if (thousands > 0) {
-        result +=
-          thousands === 1
-            ? 'mille '
-            : convertLessThanThousand(thousands) + ' mille ';
-      }
+/**
+ * Finds the bank and branch a SWIFT/BIC code belongs to.
+ *
+ * BICs without a branch suffix, or with the 'XXX' head-office suffix, resolve
+ * to the bank itself. Branches with their own 8-character BIC (such as
+ * offshore branches) are resolved as well.
+ *
+ * @param bic - The BIC to look up
+ * @returns The bank, the matching branch and whether the branch suffix is known, or undefined if no bank matches
+ *
+ * @example
+ * ```typescript
+ * findBankByBIC('BCPOMAMCFES');
+ * // Returns {
+ * //   bank: { code: '011', name: 'Banque Centrale Populaire', ... },
+ * //   branch: { code: 'FES', swift: 'BCPOMAMCFES', city: 'Fes' },
+ * //   isBranchKnown: true
+ * // }
+ *
+ * findBankByBIC('BCPOMAMCZZZ');
+ * // Returns { bank: { code: '011', ... }, isBranchKnown: false }
+ *
+ * findBankByBIC('BNPAFRPP'); // Returns undefined
+ * ```
+ */
+export function findBankByBIC(bic: string): BICLookupResult | undefined {
+  const validation = validateBIC(bic);
+  if (!validation.isValid) {
+    return undefined;
+  }
 
-      if (remainder > 0) {
-        result += convertLessThanThousand(remainder);
-      }
+  const bic8 = validation.sanitized.substring(0, 8);
+  const suffix = validation.components!.branch;
+  const isHeadOffice = !suffix || suffix === 'XXX';
+  const activeBanks = MOROCCAN_BANKS.filter(b => b.active);
 
-      result += ' dirham' + (whole !== 1 ? 's' : '');
+  const bank = activeBanks.find(b => b.swift === bic8);
+  if (bank) {
+    if (isHeadOffice) {
+      return { bank, isBranchKnown: true };
     }
 
-    if (cents > 0) {
-      if (whole > 0) result += ' et ';
-      result +=
-        convertLessThanThousand(cents) + ' centime' + (cents !== 1 ? 's' : '');
-    }
+    const branch = bank.branches?.find(b => b.swift === validation.sanitized);
+    return branch
+      ? { bank, branch, isBranchKnown: true }
+      : { bank, isBranchKnown: false };
+  }
 
-    return (isNegative ? 'moins ' : '') + result.trim();
-  } catch (error) {
-    if (error instanceof BankValidationException) {
-      console.error(`Bank validation error: ${error.code} - ${error.message}`);
-      return 'erreur de conversion';
+  // Branches with their own 8-character BIC
+  for (const candidate of activeBanks) {
+    const branch = candidate.branches?.find(b => b.swift === bic8);
+    if (branch) {
+      return { bank: candidate, branch, isBranchKnown: isHeadOffice };
     }
-    return 'erreur de conversion';
   }
+
+  return undefined;
 }
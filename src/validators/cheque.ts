@@ -0,0 +1,207 @@
+import { ARABIC_SCRIPT, MAX_AMOUNT_IN_WORDS } from '../constants/currency';
+import {
+  ChequeAmountCheckOptions,
+  ChequeAmountCheckResult,
+  ChequeAmountDivergence,
+  ChequeAmountPart,
+  ChequeValidationError,
+} from '../types/cheque';
+import {
+  CurrencyException,
+  madToWords,
+  toCentimes,
+  wordsToMAD,
+} from './currency';
+
+export { ChequeValidationError };
+
+/**
+ * Scales used to locate a divergence, from the largest
+ */
+const AMOUNT_PARTS: ReadonlyArray<{ part: ChequeAmountPart; value: number }> = [
+  { part: 'billions', value: 1_000_000_000 },
+  { part: 'millions', value: 1_000_000 },
+  { part: 'thousands', value: 1_000 },
+  { part: 'units', value: 1 },
+];
+
+/**
+ * Custom error class for cheque checking issues
+ */
+class ChequeValidationException extends Error {
+  constructor(
+    public code: ChequeValidationError,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'ChequeValidationException';
+  }
+}
+
+/**
+ * Checks that the amount in figures of a cheque matches its amount in words.
+ *
+ * The words are read with {@link wordsToMAD}, so they may be French or Arabic
+ * and written loosely. When both amounts differ, `divergences` lists the parts
+ * that differ (sign, billions, millions, thousands, units or centimes) so the
+ * operator can see where the writer went wrong. `canonicalWords` always gives
+ * the expected wording of the amount in figures.
+ *
+ * @param amount - The amount in figures, in dirhams.
+ * @param words - The amount in words, as written on the cheque.
+ * @param options - Options of the canonical wording (see {@link madToWords}).
+ *   Its language defaults to the language of `words`.
+ * @returns The comparison result
+ *
+ * @example
+ * ```typescript
+ * checkChequeAmount(1700, 'dix-sept mille dirhams');
+ * // Returns {
+ * //   isMatch: false,
+ * //   amountInFigures: 1700,
+ * //   amountInWords: 17000,
+ * //   canonicalWords: 'mille sept cents dirhams',
+ * //   divergences: [
+ * //     { part: 'thousands', inFigures: 1, inWords: 17 },
+ * //     { part: 'units', inFigures: 700, inWords: 0 }
+ * //   ],
+ * //   error: { code: 'CHEQUE_003', message: 'Amount in words does not match amount in figures', ... }
+ * // }
+ * ```
+ */
+export function checkChequeAmount(
+  amount: number,
+  words: string,
+  options: ChequeAmountCheckOptions = {}
+): ChequeAmountCheckResult {
+  let amountInFigures: number | undefined;
+  let canonicalWords: string | undefined;
+
+  try {
+    if (
+      typeof amount !== 'number' ||
+      !Number.isFinite(amount) ||
+      Math.abs(amount) > MAX_AMOUNT_IN_WORDS
+    ) {
+      throw new ChequeValidationException(
+        ChequeValidationError.INVALID_AMOUNT,
+        `Amount must be a number not exceeding ${MAX_AMOUNT_IN_WORDS}`,
+        { providedAmount: amount }
+      );
+    }
+
+    amountInFigures = (Math.sign(amount) * toCentimes(amount)) / 100;
+    canonicalWords = madToWords(amountInFigures, {
+      ...options,
+      language:
+        options.language ??
+        (typeof words === 'string' && ARABIC_SCRIPT.test(words) ? 'ar' : 'fr'),
+    });
+
+    const amountInWords = readWords(words, options);
+    const divergences = compareAmounts(amountInFigures, amountInWords);
+
+    if (divergences.length > 0) {
+      return {
+        isMatch: false,
+        amountInFigures,
+        amountInWords,
+        canonicalWords,
+        divergences,
+        error: {
+          code: ChequeValidationError.AMOUNT_MISMATCH,
+          message: 'Amount in words does not match amount in figures',
+          details: { amountInFigures, amountInWords },
+        },
+      };
+    }
+
+    return {
+      isMatch: true,
+      amountInFigures,
+      amountInWords,
+      canonicalWords,
+      divergences,
+    };
+  } catch (error) {
+    if (error instanceof ChequeValidationException) {
+      return {
+        isMatch: false,
+        amountInFigures,
+        canonicalWords,
+        divergences: [],
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the amount in words, reporting unreadable words as a cheque error
+ */
+function readWords(words: string, options: ChequeAmountCheckOptions): number {
+  try {
+    return wordsToMAD(words, { language: options.language });
+  } catch (error) {
+    if (error instanceof CurrencyException) {
+      throw new ChequeValidationException(
+        ChequeValidationError.UNREADABLE_WORDS,
+        'Amount in words could not be read',
+        { providedWords: words, reason: error.message }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists the parts of two amounts that differ
+ */
+function compareAmounts(
+  inFigures: number,
+  inWords: number
+): ChequeAmountDivergence[] {
+  const divergences: ChequeAmountDivergence[] = [];
+  const figuresSign = inFigures < 0 ? -1 : 1;
+  const wordsSign = inWords < 0 ? -1 : 1;
+
+  if (figuresSign !== wordsSign) {
+    divergences.push({
+      part: 'sign',
+      inFigures: figuresSign,
+      inWords: wordsSign,
+    });
+  }
+
+  const figuresCents = toCentimes(inFigures);
+  const wordsCents = toCentimes(inWords);
+  let figuresWhole = Math.floor(figuresCents / 100);
+  let wordsWhole = Math.floor(wordsCents / 100);
+
+  for (const { part, value } of AMOUNT_PARTS) {
+    const figuresCount = Math.floor(figuresWhole / value);
+    const wordsCount = Math.floor(wordsWhole / value);
+    figuresWhole %= value;
+    wordsWhole %= value;
+
+    if (figuresCount !== wordsCount) {
+      divergences.push({ part, inFigures: figuresCount, inWords: wordsCount });
+    }
+  }
+
+  if (figuresCents % 100 !== wordsCents % 100) {
+    divergences.push({
+      part: 'centimes',
+      inFigures: figuresCents % 100,
+      inWords: wordsCents % 100,
+    });
+  }
+
+  return divergences;
+}
@@ -0,0 +1,250 @@
+import {
+  COLLOQUIAL_AMOUNT_WORDS,
+  MAD_UNIT_CENTIMES,
+} from '../constants/currency';
+import type {
+  ColloquialAmount,
+  ColloquialAmountOptions,
+  ColloquialWord,
+  MADUnit,
+} from '../types/currency';
+import { CurrencyErrorCode, CurrencyException } from './currency';
+
+/**
+ * Converts an amount between dirhams, rials and centimes (also called francs).
+ *
+ * 1 dirham = 20 rials = 100 centimes.
+ *
+ * @param amount - The amount to convert
+ * @param from - Unit of the amount
+ * @param to - Unit to convert to
+ * @returns The converted amount
+ * @throws {CurrencyException} If the amount or a unit is invalid
+ *
+ * @example
+ * ```typescript
+ * convertMAD(1000, 'rial', 'dirham'); // 50
+ * convertMAD(1_000_000, 'centime', 'dirham'); // 10000
+ * convertMAD(12.5, 'dirham', 'rial'); // 250
+ * ```
+ */
+export function convertMAD(amount: number, from: MADUnit, to: MADUnit): number {
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    throw new CurrencyException(
+      CurrencyErrorCode.INVALID_AMOUNT,
+      'Amount must be a valid number',
+      { providedAmount: amount }
+    );
+  }
+
+  for (const unit of [from, to]) {
+    if (!Object.prototype.hasOwnProperty.call(MAD_UNIT_CENTIMES, unit)) {
+      throw new CurrencyException(
+        CurrencyErrorCode.INVALID_UNIT,
+        "Unit must be 'dirham', 'rial' or 'centime'",
+        { providedUnit: unit }
+      );
+    }
+  }
+
+  // Rounding to 15 significant digits drops binary artifacts (1.15 * 100)
+  return Number(
+    ((amount * MAD_UNIT_CENTIMES[from]) / MAD_UNIT_CENTIMES[to]).toPrecision(15)
+  );
+}
+
+/**
+ * Reads a price quoted the way Moroccans say it, in dirhams, rials or
+ * centimes, in Darija (Latin letters or Arabic script) or French.
+ *
+ * Amounts may mix digits and words ("20 alf ryal", "mlyon w nss d centime",
+ * "jouj alaf dh"), and decimals ("1,5 mlyon"). Prices stated without a unit
+ * are read in `defaultUnit`.
+ *
+ * @param text - The price as entered by the user
+ * @param options - Parsing options:
+ *   - `defaultUnit`: unit of prices stated without one (default: 'dirham').
+ * @returns The amount in the quoted unit, with its value in dirhams and centimes
+ * @throws {CurrencyException} If the text is not a price
+ *
+ * @example
+ * ```typescript
+ * parseColloquialAmount('20 alf ryal');
+ * // Returns { amount: 20000, unit: 'rial', isUnitImplied: false, dirhams: 1000, centimes: 100000 }
+ * parseColloquialAmount('mlyon d centime').dirhams; // 10000
+ * parseColloquialAmount('alf ryal').dirhams; // 50
+ * parseColloquialAmount('mlyon', { defaultUnit: 'centime' }).dirhams; // 10000
+ * ```
+ */
+export function parseColloquialAmount(
+  text: string,
+  options: ColloquialAmountOptions = {}
+): ColloquialAmount {
+  const defaultUnit = options.defaultUnit ?? 'dirham';
+  const invalid = (message: string, details?: Record<string, any>) =>
+    new CurrencyException(
+      CurrencyErrorCode.INVALID_COLLOQUIAL_AMOUNT,
+      message,
+      { providedText: text, ...details }
+    );
+
+  if (!Object.prototype.hasOwnProperty.call(MAD_UNIT_CENTIMES, defaultUnit)) {
+    throw new CurrencyException(
+      CurrencyErrorCode.INVALID_UNIT,
+      "Unit must be 'dirham', 'rial' or 'centime'",
+      { providedUnit: defaultUnit }
+    );
+  }
+  if (typeof text !== 'string') {
+    throw invalid('Text must be a string');
+  }
+  // The tokenizer splits on hyphens, which would drop the sign
+  if (/^\s*[-\u2212]/.test(text)) {
+    throw invalid('A price cannot be negative');
+  }
+
+  let total = 0;
+  let group = 0;
+  let lastScale = Infinity;
+  let hasNumber = false;
+  let unit: MADUnit | undefined;
+
+  for (const word of readColloquialWords(text, invalid)) {
+    if (unit && word.kind !== 'filler') {
+      throw invalid('The unit must end the amount');
+    }
+
+    switch (word.kind) {
+      case 'filler':
+        break;
+
+      case 'number':
+        if (!canAddToGroup(group, word.value)) {
+          throw invalid('Numbers are not in a valid order');
+        }
+        group += word.value;
+        hasNumber = true;
+        break;
+
+      case 'hundred':
+        // "tlata mya" (300) as well as "mya", but not "mya mya" or "khamsin mya"
+        if (group >= 20 || group === 10) {
+          throw invalid('Hundreds can only follow a unit or 11 to 19');
+        }
+        group = (group || 1) * 100;
+        hasNumber = true;
+        break;
+
+      case 'half':
+        // "alf w nss" is one thousand and a half, "nss mlyon" half a million
+        if (group === 0 && lastScale !== Infinity) {
+          total += lastScale / 2;
+        } else {
+          group += 0.5;
+        }
+        hasNumber = true;
+        break;
+
+      case 'scale':
+        if (word.value >= lastScale || (word.count && group > 0)) {
+          throw invalid('Scales are not in a valid order');
+        }
+        total += (word.count ?? (group || 1)) * word.value;
+        group = 0;
+        lastScale = word.value;
+        hasNumber = true;
+        break;
+
+      case 'unit':
+        unit = word.unit;
+        break;
+    }
+  }
+
+  if (!hasNumber) {
+    throw invalid('No amount found in text');
+  }
+
+  const amount = total + group;
+  const quotedUnit = unit ?? defaultUnit;
+
+  return {
+    amount,
+    unit: quotedUnit,
+    isUnitImplied: unit === undefined,
+    dirhams: convertMAD(amount, quotedUnit, 'dirham'),
+    centimes: Math.round(convertMAD(amount, quotedUnit, 'centime')),
+  };
+}
+
+/**
+ * Splits a colloquial price into the meaning of its words. Digits are read as
+ * numbers, and may be glued to the word after them ("20alf", "50dh").
+ */
+function readColloquialWords(
+  text: string,
+  invalid: (message: string, details?: Record<string, any>) => Error
+): ColloquialWord[] {
+  const normalized = text
+    .toLowerCase()
+    .normalize('NFD')
+    // Drops accents, Arabic diacritics and the hamza or madda over alefs
+    .replace(/[\u0300-\u036f\u064b-\u0655\u0640]/g, '')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    // Digits grouped by thousands (20 000, 1.500)
+    .replace(/(\d)[\s.\u00a0\u202f](?=\d{3}(?!\d))/g, '$1');
+
+  const words: ColloquialWord[] = [];
+
+  for (const token of normalized.split(/[\s'\u2019-]+/)) {
+    const word = token.replace(
+      /^[^\da-z\u0621-\u064a]+|[^\da-z\u0621-\u064a]+$/g,
+      ''
+    );
+    if (word === '') continue;
+
+    const meaning = COLLOQUIAL_AMOUNT_WORDS.get(word);
+    const number = /^(\d+(?:[.,]\d+)?)(.*)$/.exec(word);
+
+    if (meaning) {
+      words.push(meaning);
+    } else if (number && COLLOQUIAL_AMOUNT_WORDS.has(number[2])) {
+      words.push({
+        kind: 'number',
+        value: Number(number[1].replace(',', '.')),
+      });
+      words.push(COLLOQUIAL_AMOUNT_WORDS.get(number[2]) as ColloquialWord);
+    } else if (number && number[2] === '') {
+      words.push({
+        kind: 'number',
+        value: Number(number[1].replace(',', '.')),
+      });
+    } else {
+      throw invalid(`Unknown word in amount: ${word}`, { word });
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Checks whether a number can follow the numbers read so far in a group of
+ * hundreds: units after tens or hundreds ("20 5", "mya w 5"), tens after
+ * units as in Darija ("khamsa w 3ishrin"), or 10 to 19 after 60 and 80 as in
+ * French ("soixante dix"). Sequences such as "20 30" are rejected rather
+ * than summed.
+ */
+function canAddToGroup(group: number, value: number): boolean {
+  if (group === 0) return true;
+  if (!Number.isInteger(group) || !Number.isInteger(value)) return false;
+
+  const lastTwoDigits = group % 100;
+
+  if (value >= 100) return false;
+  if (value < 10) return lastTwoDigits % 10 === 0;
+  if (value < 20 && (lastTwoDigits === 60 || lastTwoDigits === 80)) {
+    return true;
+  }
+  return value % 10 === 0 ? lastTwoDigits < 10 : lastTwoDigits === 0;
+}
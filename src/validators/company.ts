@@ -1,143 +1,824 @@
-import { ICEErrorCode, ICEValidationResult } from '../types/company';
+import {
+  CNSS_LENGTHS,
+  COMPANY_LEGAL_FORMS,
+  IF_MAX_LENGTH,
+  IF_MIN_LENGTH,
+  TP_LENGTH,
+} from '../constants/company';
+import { COMMERCIAL_COURTS, RC_NUMBER_MAX_LENGTH } from '../constants/courts';
+import {
+  CNSSNumberType,
+  CNSSValidationErrorCode,
+  CNSSValidationResult,
+  CommercialCourt,
+  CompanyIdentity,
+  CompanyIdentityErrorCode,
+  CompanyIdentityValidationResult,
+  CompanyLegalForm,
+  CompanyValidationErrorCode,
+  IFValidationErrorCode,
+  IFValidationResult,
+  RCComponents,
+  RCValidationErrorCode,
+  RCValidationResult,
+  TPValidationErrorCode,
+  TPValidationResult,
+} from '../types/company';
+import { generateRandomDigits, validateICE } from './ice';
 
 // http://www.ompic.ma/fr/content/identifiant-commun-de-lentreprise
-// Identifiant Commun de l'Entreprise
-const ICE_REGEX = /^\d{15}$/;
+// Identifiant Commun de l'Entreprise: validated in ./ice, re-exported here
+// for backward compatibility
+export { sanitizeICE, validateICE } from './ice';
 
-// TODO Numero de registre de commerce
-// TODO Identifiant fiscal
-// TODO Numero de CNSS
+export {
+  CNSSValidationErrorCode,
+  CompanyIdentityErrorCode,
+  IFValidationErrorCode,
+  RCValidationErrorCode,
+  TPValidationErrorCode,
+};
 
 /**
- * Sanitizes an ICE input string by removing all non-digits characters
+ * Words found around an RC number that do not name its court
+ * ("R.C. n° 1234", "Tribunal de commerce de Fès", "السجل التجاري رقم")
+ */
+const RC_NOISE_WORDS = new Set([
+  'r',
+  'c',
+  'rc',
+  'n',
+  'no',
+  'numero',
+  'registre',
+  'de',
+  'du',
+  'd',
+  'commerce',
+  'tribunal',
+  'tc',
+  'tpi',
+  'premiere',
+  'instance',
+  'ville',
+  'ر',
+  'ت',
+  'السجل',
+  'التجاري',
+  'رقم',
+  'المحكمه',
+  'التجاريه',
+  'الابتدائيه',
+]);
+
+/**
+ * Custom error class for company identifier validation issues.
+ *
+ * @property {CompanyValidationErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new CompanyValidationException(RCValidationErrorCode.UNKNOWN_COURT, 'Unknown court', { court: 'Paris' });
+ */
+export class CompanyValidationException extends Error {
+  constructor(
+    public code: CompanyValidationErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'CompanyValidationException';
+  }
+}
+
+/**
+ * Finds the court keeping a registre de commerce from its city, in French,
+ * English or Arabic, ignoring case and accents
  *
- * @param input - Raw ICE input that needs to be sanitized
- * @returns Sanitized string of 15 digits or null if input is invalid
+ * @param name - The city of the court (e.g. 'Fes', 'Tribunal de commerce de Casablanca')
+ * @returns The court, or undefined if no court matches
  *
  * @example
  * ```typescript
- * sanitizeICE('123456789000012'); // Returns '123456789000012'
- * sanitizeICE('  123456789000012'); // Returns '123456789000012'
- * sanitizeICE(null); // Returns null
+ * findCommercialCourt('fes'); // Returns { city: 'Fès', type: 'commercial', ... }
+ * findCommercialCourt('الرباط'); // Returns { city: 'Rabat', type: 'commercial', ... }
+ * findCommercialCourt('Paris'); // Returns undefined
  * ```
  */
-export function sanitizeICE(input: unknown): string | null {
-  if (typeof input !== 'string') {
-    return null;
+export function findCommercialCourt(name: string): CommercialCourt | undefined {
+  if (typeof name !== 'string') {
+    return undefined;
   }
 
-  return input.replace(/[^0-9]/g, '');
-  // ? Should we only remove whitespace and special characters, similar to CIN?
-  // return input.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  const normalized = normalizeCourtName(name, true);
+  return COMMERCIAL_COURTS.find(court =>
+    [court.city, ...court.aliases].some(
+      alias => normalizeCourtName(alias, false) === normalized
+    )
+  );
 }
 
 /**
- * Performs comprehensive validation of a Moroccan ICE (Identifiant Commun de l'Entreprise)
+ * Validates a Moroccan registre de commerce (RC) number together with its
+ * court. RC numbers are only unique per court, so the court is required:
+ * either in the input ("RC Casablanca 123456", "R.C. 123456 - Rabat") or as
+ * the `court` argument.
  *
- * @param ice - The ICE string to validate
- * @returns Validation result containing status, errors, and metadata if valid
+ * @param rc - The RC number, optionally with its court
+ * @param court - The city of the court, when not part of `rc`
+ * @returns Validation result with the court and number if valid
  *
  * @example
  * ```typescript
- * validateICE('123456789000057');
+ * validateRC('RC Casablanca 123456');
  * // Returns {
  * //   isValid: true,
- * //   errors: [],
- * //   metadata: {
- * //     company: '123456789',
- * //     establishments: '0000',
- * //     checksum: '57',
- * //   }
+ * //   sanitized: '123456',
+ * //   components: { court: 'Casablanca', number: '123456' }
  * // }
  *
- * validateICE('XX999999');
- * // Returns {
- * //   isValid: false,
- * //   errors: [{
- * //     code: ICEErrorCode.INVALID_ICE,
- * //     message: 'Invalid ICE'
- * //   }]
- * // }
+ * validateRC('123456', 'fes').components; // { court: 'Fès', number: '123456' }
+ * validateRC('123456').error?.code; // RC_003 (missing court)
  * ```
  */
-export function validateICE(ice: unknown): ICEValidationResult {
-  const result: ICEValidationResult = {
-    isValid: false,
-    errors: [],
-  };
+export function validateRC(rc: string, court?: string): RCValidationResult {
+  let sanitized = '';
 
-  // Input validation
-  if (!ice || typeof ice !== 'string') {
-    result.errors.push({
-      code: ICEErrorCode.INVALID_INPUT,
-      message: 'ICE must be a non-empty string',
-    });
-    return result;
-  }
-
-  // Sanitize input
-  const sanitized = sanitizeICE(ice);
-  if (!sanitized) {
-    result.errors.push({
-      code: ICEErrorCode.INVALID_INPUT,
-      message: 'ICE contains invalid characters',
-    });
-    return result;
-  }
-
-  // Check format
-  if (!ICE_REGEX.test(sanitized)) {
-    result.errors.push({
-      code: ICEErrorCode.INVALID_FORMAT,
-      message: 'Invalid ICE format. Must be string of 15 digits',
-    });
-    return result;
-  }
-
-  // Extract and validate parts
-  const match = sanitized.match(/^(\d{9})(\d{4})(\d{2})$/);
-  if (match) {
-    const company = match[1];
-    const establishments = match[2];
-    const checksum = match[3];
-    console.log(`Company: ${company}`);
-    console.log(`Establishments: ${establishments}`);
-    console.log(`Checksum: ${checksum}`);
-
-    if (!/^\d{9}$/.test(company)) {
-      result.errors.push({
-        code: ICEErrorCode.INVALID_SEQUENCE,
-        message: 'Company must be 9 digits',
-      });
-      return result;
+  try {
+    if (typeof rc !== 'string') {
+      throw new CompanyValidationException(
+        RCValidationErrorCode.INVALID_INPUT_TYPE,
+        'RC must be a string',
+        { providedType: typeof rc }
+      );
     }
 
-    if (!/^\d{4}$/.test(establishments)) {
-      result.errors.push({
-        code: ICEErrorCode.INVALID_SEQUENCE,
-        message: 'Establishments must be 4 digits',
-      });
-      return result;
+    // Digits may be grouped ("123 456")
+    const text = rc.replace(/(\d)[\s.](?=\d)/g, '$1');
+    const numbers = text.match(/\d+/g) ?? [];
+
+    if (numbers.length !== 1) {
+      throw new CompanyValidationException(
+        RCValidationErrorCode.INVALID_FORMAT,
+        'RC must contain a single registration number',
+        { numbers }
+      );
+    }
+
+    sanitized = numbers[0];
+
+    if (sanitized.length > RC_NUMBER_MAX_LENGTH || /^0+$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        RCValidationErrorCode.INVALID_FORMAT,
+        `RC number must have 1 to ${RC_NUMBER_MAX_LENGTH} digits and not be zero`,
+        { number: sanitized }
+      );
     }
 
-    if (!/^\d{2}$/.test(checksum)) {
-      result.errors.push({
-        code: ICEErrorCode.INVALID_SEQUENCE,
-        message: 'Checksum must be 2 digits',
+    const courtInText = text.replace(sanitized, ' ');
+    const courts = [courtInText, court ?? '']
+      .filter(name => normalizeCourtName(name, true) !== '')
+      .map(name => {
+        const found = findCommercialCourt(name);
+        if (!found) {
+          throw new CompanyValidationException(
+            RCValidationErrorCode.UNKNOWN_COURT,
+            'Unknown court',
+            { court: name.trim() }
+          );
+        }
+        return found;
       });
-      return result;
+
+    if (courts.length === 0) {
+      throw new CompanyValidationException(
+        RCValidationErrorCode.MISSING_COURT,
+        'RC numbers are only unique per court: a court is required',
+        { number: sanitized }
+      );
+    }
+
+    if (courts.length === 2 && courts[0] !== courts[1]) {
+      throw new CompanyValidationException(
+        RCValidationErrorCode.COURT_MISMATCH,
+        'Court in RC does not match the given court',
+        { courtInRC: courts[0].city, court: courts[1].city }
+      );
     }
 
-    // Valid ICE
-    result.isValid = true;
-    result.metadata = {
-      company,
-      establishments,
-      checksum,
+    return {
+      isValid: true,
+      sanitized,
+      components: { court: courts[0].city, number: sanitized },
     };
+  } catch (error) {
+    if (error instanceof CompanyValidationException) {
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code as RCValidationErrorCode,
+          message: error.message,
+          details: error.details,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quick check to determine if an RC number is valid
+ *
+ * @param rc - The RC number, optionally with its court
+ * @param court - The city of the court, when not part of `rc`
+ * @returns True if the RC is valid, false otherwise
+ */
+export function isValidRC(rc: string, court?: string): boolean {
+  return validateRC(rc, court).isValid;
+}
+
+/**
+ * Normalizes an RC number into its court and number
+ *
+ * @param rc - The RC number, optionally with its court
+ * @param court - The city of the court, when not part of `rc`
+ * @returns The court and number, or null if the RC is invalid
+ *
+ * @example
+ * ```typescript
+ * parseRC('R.C. 123456 - Rabat'); // Returns { court: 'Rabat', number: '123456' }
+ * parseRC('123456'); // Returns null
+ * ```
+ */
+export function parseRC(rc: string, court?: string): RCComponents | null {
+  return validateRC(rc, court).components ?? null;
+}
+
+/**
+ * Sanitizes an identifiant fiscal (IF) by removing its label ("IF", "I.F. n°",
+ * "Identifiant fiscal") and separators (spaces, dots, hyphens, slashes).
+ * Other characters are kept so that validation can reject them.
+ *
+ * @param input - Raw IF input that needs to be sanitized
+ * @returns Sanitized string or null if input is invalid
+ *
+ * @example
+ * ```typescript
+ * sanitizeIF('IF: 1234 5678'); // Returns '12345678'
+ * sanitizeIF('I.F. n° 1.234.567'); // Returns '1234567'
+ * sanitizeIF(null); // Returns null
+ * ```
+ */
+export function sanitizeIF(input: unknown): string | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  return input
+    .trim()
+    .replace(/^(identifiant\s+fiscal|i\.?\s?f\.?)\s*(n\s?[°o]\.?)?\s*:?/i, '')
+    .replace(/[\s.\-/]/g, '');
+}
+
+/**
+ * Validates a Moroccan identifiant fiscal (IF), the tax identifier issued by
+ * the DGI: 7 digits for older identifiers, 8 for current ones. Placeholder
+ * values made of a single repeated digit (00000000, 1111111) are rejected.
+ *
+ * @param input - The IF to validate
+ * @returns Validation result containing status, sanitized IF and error if invalid
+ *
+ * @example
+ * ```typescript
+ * validateIF('IF 40123456'); // Returns { isValid: true, sanitized: '40123456' }
+ * validateIF('1234'); // Returns { isValid: false, sanitized: '1234', error: { code: 'IF_002', ... } }
+ * ```
+ */
+export function validateIF(input: unknown): IFValidationResult {
+  let sanitized = '';
+
+  try {
+    const value = sanitizeIF(input);
+    if (value === null) {
+      throw new CompanyValidationException(
+        IFValidationErrorCode.INVALID_INPUT_TYPE,
+        'IF must be a string',
+        { providedType: typeof input }
+      );
+    }
+    sanitized = value;
+
+    if (!/^\d*$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        IFValidationErrorCode.NON_NUMERIC_CHARACTERS,
+        'IF must contain only numeric characters',
+        { sanitized }
+      );
+    }
+
+    if (sanitized.length < IF_MIN_LENGTH || sanitized.length > IF_MAX_LENGTH) {
+      throw new CompanyValidationException(
+        IFValidationErrorCode.INVALID_LENGTH,
+        `IF must have ${IF_MIN_LENGTH} to ${IF_MAX_LENGTH} digits`,
+        { receivedLength: sanitized.length, sanitized }
+      );
+    }
+
+    if (/^(\d)\1*$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        IFValidationErrorCode.PLACEHOLDER_VALUE,
+        'IF must not be a placeholder value',
+        { sanitized }
+      );
+    }
+
+    return { isValid: true, sanitized };
+  } catch (error) {
+    if (error instanceof CompanyValidationException) {
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code as IFValidationErrorCode,
+          message: error.message,
+          details: error.details,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quick check to determine if a string is a valid identifiant fiscal
+ *
+ * @param input - The IF to check
+ * @returns True if the IF is valid, false otherwise
+ */
+export function isValidIF(input: unknown): boolean {
+  return validateIF(input).isValid;
+}
+
+/**
+ * Sanitizes a taxe professionnelle (patente) number by removing its label
+ * ("TP", "Taxe professionnelle", "Patente") and separators (spaces, dots,
+ * hyphens, slashes). Other characters are kept so that validation can reject
+ * them.
+ *
+ * @param input - Raw TP number that needs to be sanitized
+ * @returns Sanitized string or null if input is invalid
+ *
+ * @example
+ * ```typescript
+ * sanitizeTP('TP: 2570 0010'); // Returns '25700010'
+ * sanitizeTP('Patente n° 25.700.010'); // Returns '25700010'
+ * sanitizeTP(null); // Returns null
+ * ```
+ */
+export function sanitizeTP(input: unknown): string | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  return input
+    .trim()
+    .replace(
+      /^(n\s?[°o]\.?\s*(de\s+)?)?(taxe\s+professionnelle|patente|t\.?\s?p\.?)\s*(n\s?[°o]\.?)?\s*:?/i,
+      ''
+    )
+    .replace(/[\s.\-/]/g, '');
+}
+
+/**
+ * Validates a taxe professionnelle (patente) number, the 8-digit identifier
+ * issued by the commune for the business tax. Placeholder values made of a
+ * single repeated digit are rejected.
+ *
+ * @param input - The TP number to validate
+ * @returns Validation result containing status, sanitized number and error if invalid
+ *
+ * @example
+ * ```typescript
+ * validateTP('TP 25700010'); // Returns { isValid: true, sanitized: '25700010' }
+ * validateTP('1234'); // Returns { isValid: false, sanitized: '1234', error: { code: 'TP_002', ... } }
+ * ```
+ */
+export function validateTP(input: unknown): TPValidationResult {
+  let sanitized = '';
+
+  try {
+    const value = sanitizeTP(input);
+    if (value === null) {
+      throw new CompanyValidationException(
+        TPValidationErrorCode.INVALID_INPUT_TYPE,
+        'TP number must be a string',
+        { providedType: typeof input }
+      );
+    }
+    sanitized = value;
+
+    if (!/^\d*$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        TPValidationErrorCode.NON_NUMERIC_CHARACTERS,
+        'TP number must contain only numeric characters',
+        { sanitized }
+      );
+    }
+
+    if (sanitized.length !== TP_LENGTH) {
+      throw new CompanyValidationException(
+        TPValidationErrorCode.INVALID_LENGTH,
+        `TP number must have ${TP_LENGTH} digits`,
+        { receivedLength: sanitized.length, sanitized }
+      );
+    }
+
+    if (/^(\d)\1*$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        TPValidationErrorCode.PLACEHOLDER_VALUE,
+        'TP number must not be a placeholder value',
+        { sanitized }
+      );
+    }
+
+    return { isValid: true, sanitized };
+  } catch (error) {
+    if (error instanceof CompanyValidationException) {
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code as TPValidationErrorCode,
+          message: error.message,
+          details: error.details,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quick check to determine if a string is a valid taxe professionnelle number
+ *
+ * @param input - The TP number to check
+ * @returns True if the TP number is valid, false otherwise
+ */
+export function isValidTP(input: unknown): boolean {
+  return validateTP(input).isValid;
+}
+
+/**
+ * Sanitizes a CNSS number by removing its label ("CNSS", "N° d'affiliation",
+ * "Immatriculation") and separators (spaces, dots, hyphens, slashes). Other
+ * characters are kept so that validation can reject them.
+ *
+ * @param input - Raw CNSS input that needs to be sanitized
+ * @returns Sanitized string or null if input is invalid
+ *
+ * @example
+ * ```typescript
+ * sanitizeCNSS('CNSS: 123 456 789'); // Returns '123456789'
+ * sanitizeCNSS("N° d'affiliation 1234567"); // Returns '1234567'
+ * sanitizeCNSS(null); // Returns null
+ * ```
+ */
+export function sanitizeCNSS(input: unknown): string | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  return input
+    .trim()
+    .replace(
+      /^(c\.?n\.?s\.?s\.?)?\s*(n\s?[°o]\.?)?\s*(d['\u2019]\s*)?(affiliation|immatriculation)?\s*(c\.?n\.?s\.?s\.?)?\s*:?/i,
+      ''
+    )
+    .replace(/[\s.\-/]/g, '');
+}
+
+/**
+ * Validates a CNSS number: an employer affiliation number (7 digits) or an
+ * employee immatriculation number (9 digits). Without `type`, the kind of
+ * number is inferred from its length. Placeholder values made of a single
+ * repeated digit are rejected.
+ *
+ * @param input - The CNSS number to validate
+ * @param type - The expected kind of number
+ * @returns Validation result containing status, sanitized number, its kind and error if invalid
+ *
+ * @example
+ * ```typescript
+ * validateCNSS('123 456 789');
+ * // Returns { isValid: true, sanitized: '123456789', type: 'immatriculation' }
+ * validateCNSS('1234567', 'immatriculation').error?.code; // CNSS_002
+ * ```
+ */
+export function validateCNSS(
+  input: unknown,
+  type?: CNSSNumberType
+): CNSSValidationResult {
+  let sanitized = '';
+
+  try {
+    const value = sanitizeCNSS(input);
+    if (value === null) {
+      throw new CompanyValidationException(
+        CNSSValidationErrorCode.INVALID_INPUT_TYPE,
+        'CNSS number must be a string',
+        { providedType: typeof input }
+      );
+    }
+    sanitized = value;
+
+    if (!/^\d*$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        CNSSValidationErrorCode.NON_NUMERIC_CHARACTERS,
+        'CNSS number must contain only numeric characters',
+        { sanitized }
+      );
+    }
+
+    const numberType =
+      type ??
+      (Object.keys(CNSS_LENGTHS) as CNSSNumberType[]).find(
+        candidate => CNSS_LENGTHS[candidate] === sanitized.length
+      );
+
+    if (!numberType || CNSS_LENGTHS[numberType] !== sanitized.length) {
+      throw new CompanyValidationException(
+        CNSSValidationErrorCode.INVALID_LENGTH,
+        type
+          ? `CNSS ${type} number must have ${CNSS_LENGTHS[type]} digits`
+          : `CNSS number must have ${CNSS_LENGTHS.affiliation} (affiliation) or ${CNSS_LENGTHS.immatriculation} (immatriculation) digits`,
+        { receivedLength: sanitized.length, sanitized }
+      );
+    }
+
+    if (/^(\d)\1*$/.test(sanitized)) {
+      throw new CompanyValidationException(
+        CNSSValidationErrorCode.PLACEHOLDER_VALUE,
+        'CNSS number must not be a placeholder value',
+        { sanitized }
+      );
+    }
+
+    return { isValid: true, sanitized, type: numberType };
+  } catch (error) {
+    if (error instanceof CompanyValidationException) {
+      return {
+        isValid: false,
+        sanitized,
+        error: {
+          code: error.code as CNSSValidationErrorCode,
+          message: error.message,
+          details: error.details,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quick check to determine if a string is a valid CNSS number
+ *
+ * @param input - The CNSS number to check
+ * @param type - The expected kind of number
+ * @returns True if the CNSS number is valid, false otherwise
+ */
+export function isValidCNSS(input: unknown, type?: CNSSNumberType): boolean {
+  return validateCNSS(input, type).isValid;
+}
+
+/**
+ * Generates a valid CNSS number for testing purposes.
+ *
+ * @param type - Kind of number to generate (default: 'immatriculation')
+ * @returns A random CNSS number of the right length
+ *
+ * @example
+ * ```typescript
+ * generateTestCNSS(); // e.g. '482915307'
+ * generateTestCNSS('affiliation'); // e.g. '7302184'
+ * ```
+ */
+export function generateTestCNSS(
+  type: CNSSNumberType = 'immatriculation'
+): string {
+  let number: string;
 
-    return result;
+  // Numbers do not start with 0, and placeholders are not valid
+  do {
+    number = `${1 + Math.floor(Math.random() * 9)}${generateRandomDigits(
+      CNSS_LENGTHS[type] - 1
+    )}`;
+  } while (/^(\d)\1*$/.test(number));
+
+  return number;
+}
+
+/**
+ * Finds a legal form from its abbreviation or name, ignoring case, accents,
+ * dots and spaces ("S.A.R.L. AU", "sarl au", "Société anonyme").
+ *
+ * @param name - Abbreviation or name of the legal form
+ * @returns The legal form, or undefined if unknown
+ *
+ * @example
+ * ```typescript
+ * findLegalForm('S.A.R.L. AU'); // 'SARLAU'
+ * findLegalForm('Société anonyme'); // 'SA'
+ * findLegalForm('LLC'); // undefined
+ * ```
+ */
+export function findLegalForm(name: string): CompanyLegalForm | undefined {
+  if (typeof name !== 'string') {
+    return undefined;
+  }
+
+  const normalize = (value: string) =>
+    value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[\s.\-']/g, '');
+
+  const normalized = normalize(name);
+  return (Object.keys(COMPANY_LEGAL_FORMS) as CompanyLegalForm[]).find(
+    form =>
+      normalize(form) === normalized ||
+      COMPANY_LEGAL_FORMS[form].aliases.some(
+        alias => normalize(alias) === normalized
+      )
+  );
+}
+
+/**
+ * Validates the legal identifiers of a company in one call. Each identifier
+ * is checked with its own validator, then the identity is cross-checked:
+ * - the ICE is required for every company;
+ * - the court of the RC is required with the RC number, and the other way
+ *   round;
+ * - the RC is required for legal forms registered at the registre de
+ *   commerce (every form but auto-entrepreneur).
+ *
+ * Missing fields are only reported by the cross-checks. Errors are keyed by
+ * the field to correct, e.g. a missing court is reported on `rcCourt`.
+ *
+ * @param identity - The identifiers of the company; `cnss` is the employer
+ * affiliation number
+ * @returns Validation result with the sanitized identifiers and per-field errors
+ *
+ * @example
+ * ```typescript
+ * validateCompanyIdentity({
+ *   ice: '001663252000092',
+ *   if: '40123456',
+ *   rc: '123456',
+ *   rcCourt: 'Casablanca',
+ *   legalForm: 'SARL AU',
+ * });
+ * // Returns {
+ * //   isValid: true,
+ * //   sanitized: {
+ * //     ice: '001663252000092',
+ * //     if: '40123456',
+ * //     rc: { court: 'Casablanca', number: '123456' },
+ * //     legalForm: 'SARLAU',
+ * //   },
+ * //   errors: {}
+ * // }
+ *
+ * validateCompanyIdentity({ rc: '123456' }).errors;
+ * // { ice: { code: 'IDENTITY_001', ... }, rcCourt: { code: 'RC_003', ... } }
+ * ```
+ */
+export function validateCompanyIdentity(
+  identity: CompanyIdentity
+): CompanyIdentityValidationResult {
+  const { ice, if: taxId, rc, rcCourt, tp, cnss, legalForm } = identity ?? {};
+  const result: CompanyIdentityValidationResult = {
+    isValid: true,
+    sanitized: {},
+    errors: {},
+  };
+
+  const isPresent = (value: unknown) =>
+    value !== undefined &&
+    value !== null &&
+    !(typeof value === 'string' && value.trim() === '');
+
+  if (!isPresent(ice)) {
+    result.errors.ice = {
+      code: CompanyIdentityErrorCode.MISSING_ICE,
+      message: 'ICE is required for every company',
+    };
   } else {
-    // TODO probably unreachable. Refactor.
+    const validation = validateICE(ice as string);
+    if (validation.isValid) {
+      result.sanitized.ice = validation.sanitized;
+    } else {
+      result.errors.ice = validation.error;
+    }
+  }
+
+  if (isPresent(taxId)) {
+    const validation = validateIF(taxId);
+    if (validation.isValid) {
+      result.sanitized.if = validation.sanitized;
+    } else {
+      result.errors.if = validation.error;
+    }
   }
+
+  if (isPresent(tp)) {
+    const validation = validateTP(tp);
+    if (validation.isValid) {
+      result.sanitized.tp = validation.sanitized;
+    } else {
+      result.errors.tp = validation.error;
+    }
+  }
+
+  if (isPresent(cnss)) {
+    const validation = validateCNSS(cnss, 'affiliation');
+    if (validation.isValid) {
+      result.sanitized.cnss = validation.sanitized;
+    } else {
+      result.errors.cnss = validation.error;
+    }
+  }
+
+  if (isPresent(legalForm)) {
+    const form = findLegalForm(legalForm as string);
+    if (form) {
+      result.sanitized.legalForm = form;
+    } else {
+      result.errors.legalForm = {
+        code: CompanyIdentityErrorCode.UNKNOWN_LEGAL_FORM,
+        message: 'Unknown legal form',
+        details: { legalForm },
+      };
+    }
+  }
+
+  if (isPresent(rcCourt) && typeof rcCourt !== 'string') {
+    result.errors.rcCourt = {
+      code: RCValidationErrorCode.INVALID_INPUT_TYPE,
+      message: 'RC court must be a string',
+      details: { providedType: typeof rcCourt },
+    };
+  } else if (isPresent(rc)) {
+    const court = isPresent(rcCourt) ? rcCourt : undefined;
+    const validation = validateRC(rc as string, court);
+    if (validation.isValid) {
+      result.sanitized.rc = validation.components;
+    } else if (
+      validation.error?.code === RCValidationErrorCode.MISSING_COURT ||
+      (validation.error?.code === RCValidationErrorCode.UNKNOWN_COURT &&
+        validation.error.details?.court === court?.trim())
+    ) {
+      result.errors.rcCourt = validation.error;
+    } else {
+      result.errors.rc = validation.error;
+    }
+  } else if (isPresent(rcCourt)) {
+    result.errors.rc = {
+      code: CompanyIdentityErrorCode.MISSING_RC_NUMBER,
+      message: 'RC number is required with the RC court',
+      details: { rcCourt },
+    };
+  } else if (
+    result.sanitized.legalForm &&
+    COMPANY_LEGAL_FORMS[result.sanitized.legalForm].requiresRC
+  ) {
+    result.errors.rc = {
+      code: CompanyIdentityErrorCode.MISSING_RC,
+      message: 'RC is required for this legal form',
+      details: { legalForm: result.sanitized.legalForm },
+    };
+  }
+
+  result.isValid = Object.keys(result.errors).length === 0;
+  return result;
+}
+
+/**
+ * Normalizes a court name for comparison: lowercase, without accents, Arabic
+ * diacritics or punctuation, and optionally without the words around it
+ */
+function normalizeCourtName(name: string, removeNoise: boolean): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f\u064b-\u0655\u0640]/g, '')
+    .replace(/ة/g, 'ه')
+    .replace(/[^a-z\u0621-\u064a]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(word => word !== '' && !(removeNoise && RC_NOISE_WORDS.has(word)))
+    .join(' ');
 }
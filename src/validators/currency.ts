@@ -0,0 +1,652 @@
+import {
+  ARABIC_CENTIME,
+  ARABIC_DIRHAM,
+  ARABIC_AMOUNT_WORDS,
+  ARABIC_HUNDREDS,
+  ARABIC_SCRIPT,
+  ARABIC_SCALES,
+  ARABIC_TEENS,
+  ARABIC_TENS,
+  ARABIC_TWO_HUNDRED_CONSTRUCT,
+  ARABIC_UNITS,
+  FRENCH_AMOUNT_WORDS,
+  FRENCH_SCALES,
+  FRENCH_TEENS,
+  FRENCH_TENS,
+  FRENCH_UNITS,
+  MAX_AMOUNT_IN_WORDS,
+} from '../constants/currency';
+import type {
+  AmountWord,
+  ArabicNounForms,
+  FrenchOrthography,
+  MADToWordsOptions,
+  WordsLanguage,
+  WordsToMADOptions,
+} from '../types/currency';
+
+// Currency error codes
+export enum CurrencyErrorCode {
+  INVALID_AMOUNT = 'CURRENCY_001',
+  AMOUNT_OUT_OF_RANGE = 'CURRENCY_002',
+  INVALID_WORDS = 'CURRENCY_003',
+  INVALID_UNIT = 'CURRENCY_004',
+  INVALID_COLLOQUIAL_AMOUNT = 'CURRENCY_005',
+}
+
+/**
+ * Custom error class for currency conversion issues.
+ *
+ * @property {CurrencyErrorCode} code - A machine-readable error code.
+ * @property {string} message - A human-readable error message.
+ * @property {Record<string, any>} [details] - Additional context about the error.
+ *
+ * @example
+ * throw new CurrencyException(CurrencyErrorCode.INVALID_AMOUNT, 'Amount must be a valid number', { providedAmount: 'abc' });
+ */
+export class CurrencyException extends Error {
+  constructor(
+    public code: CurrencyErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'CurrencyException';
+  }
+}
+
+const CONVERSION_ERRORS = {
+  fr: 'erreur de conversion',
+  ar: 'خطأ في التحويل',
+} as const;
+
+/**
+ * Converts a given amount in Moroccan Dirhams (MAD) to its words representation,
+ * in French (default) or Arabic.
+ *
+ * Amounts are rounded to the centime and supported up to 999 999 999 999,99.
+ *
+ * French output follows the usual spelling rules (vingt et un, quatre-vingts,
+ * deux cents but deux cent mille, un million de dirhams), either traditional
+ * or as per the 1990 reform which hyphenates all numerals (vingt-et-un,
+ * mille-deux-cent-trente-quatre). In Arabic, the counted nouns agree with the
+ * number: درهم واحد, درهمان, ثلاثة دراهم, أحد عشر درهما, مائة درهم...
+ *
+ * @param amount - The amount in Moroccan Dirhams to be converted.
+ * @param options - Conversion options:
+ *   - `language`: 'fr' (default) or 'ar'.
+ *   - `orthography`: French spelling, 'traditional' (default) or 'reformed'
+ *     (1990 rules).
+ * @returns The words representation of the given amount.
+ *
+ * @example
+ * ```typescript
+ * madToWords(1234); // "mille deux cent trente-quatre dirhams"
+ * madToWords(0); // "zéro dirhams"
+ * madToWords(-45.67); // "moins quarante-cinq dirhams et soixante-sept centimes"
+ * madToWords(1_000_000); // "un million de dirhams"
+ * madToWords(1281, { orthography: 'reformed' });
+ * // "mille-deux-cent-quatre-vingt-un dirhams"
+ * madToWords(1234.67, { language: 'ar' }); // "ألف ومائتان وأربعة وثلاثون درهما وسبعة وستون سنتيما"
+ * ```
+ */
+export function madToWords(
+  amount: number,
+  options: MADToWordsOptions = {}
+): string {
+  const language = options.language ?? 'fr';
+
+  try {
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+      throw new CurrencyException(
+        CurrencyErrorCode.INVALID_AMOUNT,
+        'Amount must be a valid number',
+        { providedAmount: amount }
+      );
+    }
+
+    if (Math.abs(amount) > MAX_AMOUNT_IN_WORDS) {
+      throw new CurrencyException(
+        CurrencyErrorCode.AMOUNT_OUT_OF_RANGE,
+        `Amount must not exceed ${MAX_AMOUNT_IN_WORDS} in absolute value`,
+        { providedAmount: amount }
+      );
+    }
+
+    const totalCents = toCentimes(amount);
+    const whole = Math.floor(totalCents / 100);
+    const cents = totalCents % 100;
+    const isNegative = amount < 0 && totalCents > 0;
+
+    return language === 'ar'
+      ? toArabicWords(whole, cents, isNegative)
+      : toFrenchWords(
+          whole,
+          cents,
+          isNegative,
+          options.orthography ?? 'traditional'
+        );
+  } catch {
+    return CONVERSION_ERRORS[language] ?? CONVERSION_ERRORS.fr;
+  }
+}
+
+/**
+ * Reads an amount written in words back to a number of Moroccan Dirhams: the
+ * inverse of {@link madToWords}, in French or Arabic.
+ *
+ * The reading is lenient with the way cheques are filled in: case, hyphens and
+ * accents are ignored, DH/dhs/MAD are accepted for dirhams, and centimes may
+ * follow the dirhams without their unit ("dix dirhams cinquante"). Arabic is
+ * read without diacritics and whatever the spelling of hamza or ta marbuta.
+ *
+ * @param words - The amount in words.
+ * @param options - Parsing options:
+ *   - `language`: 'fr' or 'ar', detected from the script when omitted.
+ * @returns The amount in dirhams, with centimes as decimals.
+ * @throws {CurrencyException} If the words do not form a valid amount.
+ *
+ * @example
+ * ```typescript
+ * wordsToMAD('mille deux cent trente-quatre dirhams et cinquante centimes'); // 1234.5
+ * wordsToMAD('quatre vingt dix dhs'); // 90
+ * wordsToMAD('douze cents dirhams'); // 1200
+ * wordsToMAD('ألف ومائتان وأربعة وثلاثون درهما'); // 1234
+ * wordsToMAD('douze pommes'); // throws CurrencyException (CURRENCY_003)
+ * ```
+ */
+export function wordsToMAD(
+  words: string,
+  options: WordsToMADOptions = {}
+): number {
+  if (typeof words !== 'string' || words.trim() === '') {
+    throw new CurrencyException(
+      CurrencyErrorCode.INVALID_WORDS,
+      'Words must be a non-empty string',
+      { providedWords: words }
+    );
+  }
+
+  const language =
+    options.language ?? (ARABIC_SCRIPT.test(words) ? 'ar' : 'fr');
+
+  return language === 'ar'
+    ? readAmountWords(readArabicWords(words), words, language)
+    : readAmountWords(readFrenchWords(words), words, language);
+}
+
+/**
+ * Rounds an amount in dirhams to a whole number of centimes, half away from
+ * zero, and returns its absolute value. Rounding through toPrecision avoids
+ * 1.005 * 100 = 100.49999..., so that figures and words agree.
+ *
+ * @param amount - The amount in dirhams
+ * @returns The absolute amount in centimes
+ *
+ * @example
+ * toCentimes(1.005); // 101
+ * toCentimes(-12.5); // 1250
+ */
+export function toCentimes(amount: number): number {
+  return Math.round(Number((Math.abs(amount) * 100).toPrecision(15)));
+}
+
+/**
+ * Writes an amount split into dirhams and centimes in French
+ */
+function toFrenchWords(
+  whole: number,
+  cents: number,
+  isNegative: boolean,
+  orthography: FrenchOrthography
+): string {
+  if (whole === 0 && cents === 0) return 'zéro dirhams';
+
+  const reformed = orthography === 'reformed';
+  const parts: string[] = [];
+
+  if (whole > 0) {
+    // "un million de dirhams", but "un million cent dirhams"
+    const currency =
+      whole % 1_000_000 === 0 ? 'de dirhams' : whole > 1 ? 'dirhams' : 'dirham';
+    parts.push(`${frenchNumber(whole, reformed)} ${currency}`);
+  }
+
+  if (cents > 0) {
+    parts.push(
+      `${frenchBelowHundred(cents, true, reformed)} centime${cents > 1 ? 's' : ''}`
+    );
+  }
+
+  return (isNegative ? 'moins ' : '') + parts.join(' et ');
+}
+
+/**
+ * Writes a number between 1 and 999 999 999 999 in French
+ */
+function frenchNumber(n: number, reformed: boolean): string {
+  const separator = reformed ? '-' : ' ';
+  const chunks: string[] = [];
+  const numerals: string[] = [];
+  let remainder = n;
+
+  for (const scale of FRENCH_SCALES) {
+    const count = Math.floor(remainder / scale.value);
+    remainder %= scale.value;
+
+    if (count === 0) continue;
+
+    if (scale.isNoun) {
+      // Nouns end the numeral they follow, so cent and vingt may agree
+      const noun = count > 1 ? scale.plural : scale.singular;
+      chunks.push(`${frenchBelowThousand(count, true, reformed)} ${noun}`);
+    } else if (count === 1) {
+      numerals.push(scale.singular);
+    } else {
+      numerals.push(
+        `${frenchBelowThousand(count, false, reformed)}${separator}${scale.singular}`
+      );
+    }
+  }
+
+  if (remainder > 0) {
+    numerals.push(frenchBelowThousand(remainder, true, reformed));
+  }
+
+  if (numerals.length > 0) {
+    chunks.push(numerals.join(separator));
+  }
+
+  return chunks.join(' ');
+}
+
+/**
+ * Writes a number between 1 and 999 in French. `isFinal` tells whether the
+ * number ends the numeral, in which case multiplied cent and vingt take an s
+ * (deux cents, quatre-vingts, but deux cent mille)
+ */
+function frenchBelowThousand(
+  n: number,
+  isFinal: boolean,
+  reformed: boolean
+): string {
+  const separator = reformed ? '-' : ' ';
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+
+  if (hundreds === 1) {
+    parts.push('cent');
+  } else if (hundreds > 1) {
+    const plural = rest === 0 && isFinal ? 's' : '';
+    parts.push(`${FRENCH_UNITS[hundreds]}${separator}cent${plural}`);
+  }
+
+  if (rest > 0) {
+    parts.push(frenchBelowHundred(rest, isFinal, reformed));
+  }
+
+  return parts.join(separator);
+}
+
+/**
+ * Writes a number between 1 and 99 in French
+ */
+function frenchBelowHundred(
+  n: number,
+  isFinal: boolean,
+  reformed: boolean
+): string {
+  const and = reformed ? '-et-' : ' et ';
+
+  if (n < 10) return FRENCH_UNITS[n];
+  if (n < 20) return FRENCH_TEENS[n - 10];
+
+  const tens = Math.floor(n / 10);
+  const units = n % 10;
+
+  // 70-79 and 90-99 are built on soixante and quatre-vingt plus 10-19
+  if (tens === 7) {
+    return units === 1
+      ? `soixante${and}onze`
+      : `soixante-${FRENCH_TEENS[units]}`;
+  }
+  if (tens === 9) {
+    return `quatre-vingt-${FRENCH_TEENS[units]}`;
+  }
+  if (tens === 8) {
+    if (units === 0) return `quatre-vingt${isFinal ? 's' : ''}`;
+    return `quatre-vingt-${FRENCH_UNITS[units]}`;
+  }
+
+  if (units === 0) return FRENCH_TENS[tens];
+  if (units === 1) return `${FRENCH_TENS[tens]}${and}un`;
+  return `${FRENCH_TENS[tens]}-${FRENCH_UNITS[units]}`;
+}
+
+/**
+ * Writes an amount split into dirhams and centimes in Arabic
+ */
+function toArabicWords(
+  whole: number,
+  cents: number,
+  isNegative: boolean
+): string {
+  const parts: string[] = [];
+
+  if (whole > 0 || cents === 0) {
+    parts.push(countArabic(whole, ARABIC_DIRHAM));
+  }
+  if (cents > 0) {
+    parts.push(countArabic(cents, ARABIC_CENTIME));
+  }
+
+  return (isNegative ? 'ناقص ' : '') + parts.join(' و');
+}
+
+/**
+ * Writes a number followed by the counted noun in the form it requires
+ */
+function countArabic(n: number, forms: ArabicNounForms): string {
+  if (n === 0) return `صفر ${forms.singular}`;
+  if (n === 1) return `${forms.singular} ${ARABIC_UNITS[1]}`;
+  if (n === 2) return forms.dual;
+
+  return `${arabicNumber(n)} ${arabicNounForm(n, forms)}`;
+}
+
+/**
+ * Picks the noun form required after a number greater than 2
+ */
+function arabicNounForm(n: number, forms: ArabicNounForms): string {
+  const lastTwoDigits = n % 100;
+
+  if (lastTwoDigits <= 2) return forms.singular;
+  if (lastTwoDigits <= 10) return forms.plural;
+  return forms.accusative;
+}
+
+/**
+ * Writes a number in Arabic, assuming it is followed by a noun
+ */
+function arabicNumber(n: number): string {
+  const parts: string[] = [];
+  let remainder = n;
+
+  for (const scale of ARABIC_SCALES) {
+    const count = Math.floor(remainder / scale.value);
+    remainder %= scale.value;
+
+    if (count === 0) continue;
+
+    // A scale directly followed by the counted noun is in construct state
+    const isLast = remainder === 0;
+
+    if (count === 1) {
+      parts.push(scale.forms.singular);
+    } else if (count === 2) {
+      parts.push(isLast ? scale.dualConstruct : scale.forms.dual);
+    } else {
+      const countWords =
+        count < 1000 ? arabicBelowThousand(count) : arabicNumber(count);
+      const form = arabicNounForm(count, scale.forms);
+      parts.push(
+        `${countWords} ${isLast && form === scale.forms.accusative ? scale.forms.singular : form}`
+      );
+    }
+  }
+
+  if (remainder > 0) {
+    parts.push(arabicBelowThousand(remainder));
+  }
+
+  return parts.join(' و');
+}
+
+/**
+ * Writes a number between 1 and 999 in Arabic, assuming it is followed by a noun
+ */
+function arabicBelowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+
+  if (hundreds > 0) {
+    parts.push(
+      hundreds === 2 && rest === 0
+        ? ARABIC_TWO_HUNDRED_CONSTRUCT
+        : ARABIC_HUNDREDS[hundreds]
+    );
+  }
+
+  if (rest >= 20) {
+    const units = rest % 10;
+    const tens = ARABIC_TENS[Math.floor(rest / 10)];
+    parts.push(units > 0 ? `${ARABIC_UNITS[units]} و${tens}` : tens);
+  } else if (rest >= 10) {
+    parts.push(ARABIC_TEENS[rest - 10]);
+  } else if (rest > 0) {
+    parts.push(ARABIC_UNITS[rest]);
+  }
+
+  return parts.join(' و');
+}
+
+/**
+ * Splits French words into their meaning, ignoring case, accents and hyphens
+ */
+function readFrenchWords(words: string): AmountWord[] {
+  const normalized = words
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+  const meanings: AmountWord[] = [];
+
+  for (const word of normalized.split(' ')) {
+    const meaning = lookUpAmountWord(FRENCH_AMOUNT_WORDS, word, words);
+    const previous = meanings[meanings.length - 1];
+
+    // quatre-vingts is a single number, not four then twenty
+    if (
+      meaning.kind === 'number' &&
+      meaning.value === 20 &&
+      previous?.kind === 'number' &&
+      previous.value === 4
+    ) {
+      meanings[meanings.length - 1] = { kind: 'number', value: 80 };
+    } else {
+      meanings.push(meaning);
+    }
+  }
+
+  return meanings;
+}
+
+/**
+ * Splits Arabic words into their meaning, ignoring diacritics, spelling
+ * variants and the conjunction و attached to a word
+ */
+function readArabicWords(words: string): AmountWord[] {
+  const normalized = words
+    .replace(/د\.م\.?/g, ' درهم ')
+    .replace(/[\u064b-\u0652\u0640]/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/مئ/g, 'مائ')
+    .replace(/[^\u0621-\u064a]+/g, ' ')
+    .trim();
+
+  return normalized.split(' ').map(word => {
+    const isKnown = Object.prototype.hasOwnProperty.call(
+      ARABIC_AMOUNT_WORDS,
+      word
+    );
+
+    return !isKnown && word.length > 1 && word.startsWith('و')
+      ? lookUpAmountWord(ARABIC_AMOUNT_WORDS, word.slice(1), words)
+      : lookUpAmountWord(ARABIC_AMOUNT_WORDS, word, words);
+  });
+}
+
+function lookUpAmountWord(
+  dictionary: Readonly<Record<string, AmountWord>>,
+  word: string,
+  words: string
+): AmountWord {
+  if (!Object.prototype.hasOwnProperty.call(dictionary, word)) {
+    throw new CurrencyException(
+      CurrencyErrorCode.INVALID_WORDS,
+      `Unknown word in amount: ${word}`,
+      { providedWords: words, word }
+    );
+  }
+
+  return dictionary[word];
+}
+
+/**
+ * Computes the amount from the meaning of its words. Numbers are built group
+ * by group (below a thousand), each group being multiplied by the scale that
+ * follows it, and are assigned to the dirhams or the centimes by the unit that
+ * closes them.
+ */
+function readAmountWords(
+  meanings: AmountWord[],
+  words: string,
+  language: WordsLanguage
+): number {
+  // Arabic states units before tens (اثنان وعشرون) and may state one after
+  // the noun (درهم واحد)
+  const isArabic = language === 'ar';
+  const invalid = (message: string) =>
+    new CurrencyException(CurrencyErrorCode.INVALID_WORDS, message, {
+      providedWords: words,
+    });
+
+  const amounts: { dirham?: number; centime?: number } = {};
+  let total = 0;
+  let group = 0;
+  let lastScale = Infinity;
+  let hasNumber = false;
+  let isNegative = false;
+  let isCountImplied = false;
+
+  for (const meaning of meanings) {
+    if (isCountImplied && meaning.kind === 'number' && meaning.value === 1) {
+      isCountImplied = false;
+      continue;
+    }
+    isCountImplied = false;
+
+    switch (meaning.kind) {
+      case 'filler':
+        break;
+
+      case 'negative':
+        if (isNegative || hasNumber || amounts.dirham !== undefined) {
+          throw invalid('The sign must come before the amount');
+        }
+        isNegative = true;
+        break;
+
+      case 'number':
+        if (!canAddToGroup(group, meaning.value, isArabic)) {
+          throw invalid('Numbers are not in a valid order');
+        }
+        group += meaning.value;
+        hasNumber = true;
+        break;
+
+      case 'hundred':
+        // "douze cents" (1 200) as well as "deux cents"
+        if (group >= 20 || group === 10) {
+          throw invalid('Hundreds can only follow a unit or 11 to 19');
+        }
+        group = (group || 1) * 100;
+        hasNumber = true;
+        break;
+
+      case 'scale': {
+        if (meaning.value >= lastScale || (meaning.count && group > 0)) {
+          throw invalid('Scales are not in a valid order');
+        }
+        const count =
+          meaning.count ?? (meaning.dualWhenAlone && group === 0 ? 2 : group);
+        total += (count || 1) * meaning.value;
+        group = 0;
+        lastScale = meaning.value;
+        hasNumber = true;
+        break;
+      }
+
+      case 'unit': {
+        const { unit } = meaning;
+        if (amounts[unit] !== undefined || amounts.centime !== undefined) {
+          throw invalid(`Unexpected ${unit} unit`);
+        }
+        if (hasNumber && meaning.count) {
+          throw invalid(`Unexpected count before ${unit} unit`);
+        }
+        if (!hasNumber && !(isArabic || meaning.count)) {
+          throw invalid(`Missing amount before ${unit} unit`);
+        }
+        isCountImplied = !hasNumber && meaning.count === undefined;
+        amounts[unit] = hasNumber ? total + group : (meaning.count ?? 1);
+        total = 0;
+        group = 0;
+        lastScale = Infinity;
+        hasNumber = false;
+        break;
+      }
+    }
+  }
+
+  // A number left without unit is the dirhams, or the centimes after them
+  if (hasNumber) {
+    if (amounts.centime !== undefined) {
+      throw invalid('Unexpected number after the centimes');
+    }
+    amounts[amounts.dirham === undefined ? 'dirham' : 'centime'] =
+      total + group;
+  }
+
+  if (amounts.dirham === undefined && amounts.centime === undefined) {
+    throw invalid('No amount found in words');
+  }
+
+  const centimes = amounts.centime ?? 0;
+  if (centimes >= 100) {
+    throw invalid('Centimes must be below one hundred');
+  }
+
+  const amount = Math.round((amounts.dirham ?? 0) * 100 + centimes) / 100;
+  return isNegative && amount > 0 ? -amount : amount;
+}
+
+/**
+ * Tells whether a number word may follow the group read so far: units after
+ * tens (vingt-deux), teens after soixante and quatre-vingt, and in Arabic,
+ * tens and ten after units (اثنان وعشرون, ثلاثة عشر)
+ */
+function canAddToGroup(
+  group: number,
+  value: number,
+  unitsBeforeTens: boolean
+): boolean {
+  const lastTwoDigits = group % 100;
+
+  if (value >= 100) return group === 0;
+  if (value < 10) return lastTwoDigits % 10 === 0;
+  if (value < 20) {
+    return (
+      lastTwoDigits === 0 ||
+      (unitsBeforeTens
+        ? value === 10 && lastTwoDigits < 10
+        : lastTwoDigits === 60 || lastTwoDigits === 80)
+    );
+  }
+  return lastTwoDigits === 0 || (unitsBeforeTens && lastTwoDigits < 10);
+}
@@ -5,15 +5,15 @@ import {
   CONTROL_LENGTH,
 } from '../constants/ice';
 import { formatICE } from '../formatters';
-import type { ICEGenerationOptions, ICEValidationResult } from '../types/ice';
-
-// ICE Error codes
-export enum ICEValidationErrorCode {
-  INVALID_INPUT_TYPE = 'ICE_001',
-  INVALID_LENGTH = 'ICE_002',
-  NON_NUMERIC_CHARACTERS = 'ICE_003',
-  INVALID_CONTROL = 'ICE_004',
-}
+import {
+  ICEControlAlgorithm,
+  ICEGenerationOptions,
+  ICEValidationErrorCode,
+  ICEValidationOptions,
+  ICEValidationResult,
+} from '../types/ice';
+
+export { ICEValidationErrorCode };
 
 /**
  * Custom error class for ICE number validations issues.
@@ -42,12 +42,41 @@ export class ICEValidationException extends Error {
 /**
  * Validates a Moroccan ICE (Identifiant Commun de l'Entreprise) number
  *
+ * The control key is checked with the official OMPIC algorithm. Numbers
+ * following the legacy placeholder rule of earlier versions of this library
+ * are only accepted with `acceptLegacyControl`.
+ *
  * @param ice - The ICE number to validate
+ * @param options - Validation options:
+ *   - `acceptLegacyControl`: Also accept legacy control keys (default: false).
  * @returns ICEValidationResult with validation details
- * @throws {ICEValidationException} When validation fails
+ *
+ * @example
+ * ```typescript
+ * validateICE('001663252000092');
+ * // Returns {
+ * //   isValid: true,
+ * //   sanitized: '001663252000092',
+ * //   components: { company: '001663252', establishment: '0000', control: '92' },
+ * //   controlAlgorithm: 'official'
+ * // }
+ * validateICE('123456789000060').error?.code; // ICE_004
+ * validateICE('123456789000060', { acceptLegacyControl: true }).controlAlgorithm; // 'legacy'
+ * ```
  */
-export function validateICE(ice: string): ICEValidationResult {
+export function validateICE(
+  ice: string,
+  options: ICEValidationOptions = {}
+): ICEValidationResult {
   try {
+    if (typeof ice !== 'string') {
+      throw new ICEValidationException(
+        ICEValidationErrorCode.INVALID_INPUT_TYPE,
+        'ICE must be a string',
+        { providedType: typeof ice }
+      );
+    }
+
     // Sanitize input
     const sanitized = sanitizeICE(ice);
 
@@ -82,8 +111,15 @@ export function validateICE(ice: string): ICEValidationResult {
       ),
     };
 
-    // Validate ICE control (placeholder implementation)
-    if (!validateControl(sanitized)) {
+    // Validate ICE control
+    const algorithms: ICEControlAlgorithm[] = options.acceptLegacyControl
+      ? ['official', 'legacy']
+      : ['official'];
+    const controlAlgorithm = algorithms.find(algorithm =>
+      validateControl(sanitized, algorithm)
+    );
+
+    if (!controlAlgorithm) {
       throw new ICEValidationException(
         ICEValidationErrorCode.INVALID_CONTROL,
         'Invalid ICE control',
@@ -99,6 +135,7 @@ export function validateICE(ice: string): ICEValidationResult {
       isValid: true,
       sanitized,
       components,
+      controlAlgorithm,
     };
   } catch (error) {
     if (isICEValidationException(error)) {
@@ -126,18 +163,22 @@ export function validateICE(ice: string): ICEValidationResult {
 /**
  * Quick check to determine if a string is a valid Moroccan ICE
  *
- * @param cin - The ICE string to check
+ * @param ice - The ICE string to check
+ * @param options - Validation options (see {@link validateICE})
  * @returns True if the ICE is valid, false otherwise
  *
  * @example
  * ```typescript
  * isValidICE('A123456'); // Returns false
  * isValidICE('123456789000001'); // Returns false
- * isValidICE('123456789000057'); // Returns true
+ * isValidICE('123456789000014'); // Returns true
  * ```
  */
-export function isValidICE(ice: string): boolean {
-  return validateICE(ice).isValid;
+export function isValidICE(
+  ice: string,
+  options: ICEValidationOptions = {}
+): boolean {
+  return validateICE(ice, options).isValid;
 }
 
 /**
@@ -152,32 +193,64 @@ export function sanitizeICE(ice: string): string {
 /**
  * Validates ICE control
  *
- * Note: This uses a temporary MOD 97 validation until official
- * specifications are confirmed. Replace with official algorithm
- * when available.
  * @param ice - ICE to be control validated
+ * @param algorithm - Control rule to check against (default: 'official')
  * @returns true if ICE is valid, otherwise false
  */
-export function validateControl(ice: string): boolean {
-  if (typeof ice !== 'string') {
+export function validateControl(
+  ice: string,
+  algorithm: ICEControlAlgorithm = 'official'
+): boolean {
+  if (typeof ice !== 'string' || !/^\d+$/.test(ice)) {
     return false;
   }
-  return calculateControl(ice) === ice.slice(-CONTROL_LENGTH);
+  return calculateControl(ice, algorithm) === ice.slice(-CONTROL_LENGTH);
 }
 
 /**
- * Calculates ICE control (MOD 97)
- * @param ice - ICE to be control calculated
+ * Calculates ICE control.
+ *
+ * The official key is 97 - ((first 13 digits × 100) mod 97), in the range
+ * 01-97. The legacy key, kept for numbers issued under the placeholder rule of
+ * earlier versions, is (first 13 digits) mod 97.
+ *
+ * @param ice - ICE to be control calculated, with or without its control
+ * @param algorithm - Control rule to apply (default: 'official')
  * @returns Calculated control
+ * @throws {ICEValidationException} If the ICE contains non-digit characters
  */
-export function calculateControl(ice: string): string {
+export function calculateControl(
+  ice: string,
+  algorithm: ICEControlAlgorithm = 'official'
+): string {
   const payload =
     ice.length === ICE_LENGTH ? ice.slice(0, -CONTROL_LENGTH) : ice;
-  const numericValue = BigInt(payload);
-  const control = Number(numericValue % 97n);
+
+  if (!/^\d*$/.test(payload)) {
+    throw new ICEValidationException(
+      ICEValidationErrorCode.NON_NUMERIC_CHARACTERS,
+      'ICE must contain only numeric characters',
+      { ice }
+    );
+  }
+
+  const control =
+    algorithm === 'legacy' ? mod97(payload) : 97 - mod97(`${payload}00`);
   return control.toString().padStart(CONTROL_LENGTH, '0');
 }
 
+/**
+ * Computes the remainder of a number given as a string of digits divided by
+ * 97, without going through BigInt
+ */
+function mod97(digits: string): number {
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+}
+
 /**
  * Type guard for ICEValidationException
  * @param error - Error to check its type
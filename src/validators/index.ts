@@ -31,13 +31,32 @@ import {
  * Import bank validation utilities
  */
 import {
+  validateIBAN,
   isValidIBAN,
+  validateRIB,
   isValidRIB,
+  ribToIBAN,
+  ibanToRIB,
+  computeRIBKey,
+  generateTestRIB,
+  generateTestIBAN,
   getBankDetails,
   getSwiftCode,
-  madToWords,
+  validateBIC,
+  findBankByBIC,
 } from './bank';
 
+/**
+ * Import currency utilities
+ */
+import { madToWords, wordsToMAD } from './currency';
+import { convertMAD, parseColloquialAmount } from './colloquial';
+
+/**
+ * Import cheque utilities
+ */
+import { checkChequeAmount } from './cheque';
+
 /**
  * Import phone number validation utilities
  */
@@ -62,6 +81,33 @@ import {
   generateTestICE,
 } from './ice';
 
+/**
+ * Import company identifier validation utilities
+ */
+import {
+  validateRC,
+  isValidRC,
+  parseRC,
+  findCommercialCourt,
+  validateCompanyIdentity,
+  findLegalForm,
+  validateIF,
+  isValidIF,
+  sanitizeIF,
+  validateTP,
+  isValidTP,
+  sanitizeTP,
+  validateCNSS,
+  isValidCNSS,
+  sanitizeCNSS,
+  generateTestCNSS,
+} from './company';
+
+/**
+ * Import invoice validation utilities
+ */
+import { checkInvoiceMentions } from './invoice';
+
 /**
  * Namespace containing all CIN-related validation functions
  */
@@ -90,13 +136,39 @@ const passport = {
  * Namespace containing all bank-related validation functions
  */
 const bank = {
+  validateIBAN,
   isValidIBAN,
+  validateRIB,
   isValidRIB,
+  ribToIBAN,
+  ibanToRIB,
+  computeRIBKey,
+  generateTestRIB,
+  generateTestIBAN,
   getDetails: getBankDetails,
   getSwiftCode,
+  validateBIC,
+  findBankByBIC,
   madToWords,
 };
 
+/**
+ * Namespace containing all currency-related functions
+ */
+const currency = {
+  toWords: madToWords,
+  fromWords: wordsToMAD,
+  convert: convertMAD,
+  parseColloquial: parseColloquialAmount,
+};
+
+/**
+ * Namespace containing all cheque-related functions
+ */
+const cheque = {
+  checkAmount: checkChequeAmount,
+};
+
 /**
  * Namespace containing all phone number-related validation functions
  */
@@ -121,6 +193,53 @@ const ice = {
   generateTestICE,
 };
 
+/**
+ * Namespace containing all company identifier validation functions
+ */
+const company = {
+  validateRC,
+  isValidRC,
+  parseRC,
+  findCommercialCourt,
+  validateIdentity: validateCompanyIdentity,
+  findLegalForm,
+};
+
+/**
+ * Namespace containing all identifiant fiscal (IF) validation functions
+ */
+const taxId = {
+  validate: validateIF,
+  isValid: isValidIF,
+  sanitize: sanitizeIF,
+};
+
+/**
+ * Namespace containing all taxe professionnelle (patente) validation functions
+ */
+const patente = {
+  validate: validateTP,
+  isValid: isValidTP,
+  sanitize: sanitizeTP,
+};
+
+/**
+ * Namespace containing all CNSS number validation functions
+ */
+const cnss = {
+  validate: validateCNSS,
+  isValid: isValidCNSS,
+  sanitize: sanitizeCNSS,
+  generateTest: generateTestCNSS,
+};
+
+/**
+ * Namespace containing all invoice validation functions
+ */
+const invoices = {
+  checkMentions: checkInvoiceMentions,
+};
+
 /**
  * Collection of all validator namespaces
  */
@@ -128,8 +247,15 @@ export const validators = {
   cin,
   passport,
   bank,
+  currency,
+  cheque,
   phone,
   ice,
+  company,
+  taxId,
+  patente,
+  cnss,
+  invoices,
 };
 
 /**
@@ -159,7 +285,31 @@ export {
 /**
  * Direct exports of bank validation functions for granular imports
  */
-export { isValidIBAN, isValidRIB, getBankDetails, getSwiftCode, madToWords };
+export {
+  validateIBAN,
+  isValidIBAN,
+  validateRIB,
+  isValidRIB,
+  ribToIBAN,
+  ibanToRIB,
+  computeRIBKey,
+  generateTestRIB,
+  generateTestIBAN,
+  getBankDetails,
+  getSwiftCode,
+  validateBIC,
+  findBankByBIC,
+};
+
+/**
+ * Direct exports of currency functions for granular imports
+ */
+export { madToWords, wordsToMAD, convertMAD, parseColloquialAmount };
+
+/**
+ * Direct exports of cheque functions for granular imports
+ */
+export { checkChequeAmount };
 
 /**
  * Direct exports of phone number validation functions for granular imports
@@ -184,3 +334,30 @@ export {
   validateControl,
   generateTestICE,
 };
+
+/**
+ * Direct exports of company identifier validation functions for granular imports
+ */
+export {
+  validateRC,
+  isValidRC,
+  parseRC,
+  findCommercialCourt,
+  validateCompanyIdentity,
+  findLegalForm,
+  validateIF,
+  isValidIF,
+  sanitizeIF,
+  validateTP,
+  isValidTP,
+  sanitizeTP,
+  validateCNSS,
+  isValidCNSS,
+  sanitizeCNSS,
+  generateTestCNSS,
+};
+
+/**
+ * Direct exports of invoice validation functions for granular imports
+ */
+export { checkInvoiceMentions };
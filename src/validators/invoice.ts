@@ -0,0 +1,333 @@
+import { divideAndRound } from '../calculators/vat';
+import { VAT_RATES } from '../constants/tax';
+import {
+  Invoice,
+  InvoiceCheckResult,
+  InvoiceIssue,
+  InvoiceMention,
+  InvoiceRateTotal,
+  InvoiceValidationErrorCode,
+} from '../types/invoice';
+import { validateIF, validateRC, validateTP } from './company';
+import { validateICE } from './ice';
+
+export { InvoiceValidationErrorCode };
+
+/**
+ * Difference allowed, in centimes, between the TVA of a rate and that rate
+ * applied to its total excluding tax, when the number of lines rounded at
+ * that rate is not given
+ */
+const VAT_ROUNDING_TOLERANCE = 5;
+
+type ReportIssue = (
+  mention: InvoiceMention,
+  code: InvoiceValidationErrorCode,
+  message: string,
+  details?: Record<string, any>
+) => void;
+
+/**
+ * Checks that an invoice carries the mentions required by Moroccan tax law
+ * (article 145 of the Code Général des Impôts):
+ * - the invoice number and issue date;
+ * - the ICE, IF, RC and taxe professionnelle numbers of the seller;
+ * - the ICE of the buyer, when the buyer is a business;
+ * - the totals excluding tax (HT), of TVA and including tax (TTC), with the
+ *   totals by TVA rate;
+ * - the payment terms or due date.
+ *
+ * Identifiers are checked with their own validators, and the totals must add
+ * up. Amounts are in centimes, as returned by `parseMAD`.
+ *
+ * @param invoice - The invoice to check
+ * @returns Whether the invoice is compliant, and its missing or invalid mentions
+ *
+ * @example
+ * ```typescript
+ * checkInvoiceMentions({
+ *   number: 'F-2024-0042',
+ *   date: '2024-03-15',
+ *   seller: { ice: '001663252000092', if: '40123456', rc: 'RC Rabat 12345', tp: '25700010' },
+ *   buyer: { isBusiness: false },
+ *   totals: {
+ *     exclTax: 100000,
+ *     vat: 20000,
+ *     inclTax: 120000,
+ *     byRate: [{ rate: 20, exclTax: 100000, vat: 20000 }],
+ *   },
+ * });
+ * // Returns {
+ * //   isCompliant: false,
+ * //   issues: [{ mention: 'paymentTerms', code: 'INVOICE_002', message: 'Payment terms or due date are required' }]
+ * // }
+ * ```
+ */
+export function checkInvoiceMentions(invoice: Invoice): InvoiceCheckResult {
+  const issues: InvoiceIssue[] = [];
+  const report: ReportIssue = (mention, code, message, details) => {
+    issues.push({ mention, code, message, ...(details && { details }) });
+  };
+
+  if (typeof invoice !== 'object' || invoice === null) {
+    report(
+      'invoice',
+      InvoiceValidationErrorCode.INVALID_INPUT_TYPE,
+      'Invoice must be an object',
+      { providedType: invoice === null ? 'null' : typeof invoice }
+    );
+    return { isCompliant: false, issues };
+  }
+
+  const { seller = {}, buyer = {} } = invoice;
+
+  if (!isPresent(invoice.number)) {
+    report(
+      'number',
+      InvoiceValidationErrorCode.MISSING_MENTION,
+      'Invoice number is required'
+    );
+  }
+
+  if (!isPresent(invoice.date)) {
+    report(
+      'date',
+      InvoiceValidationErrorCode.MISSING_MENTION,
+      'Invoice date is required'
+    );
+  } else if (!isValidDate(invoice.date)) {
+    report(
+      'date',
+      InvoiceValidationErrorCode.INVALID_MENTION,
+      'Invoice date is not a valid date',
+      { date: invoice.date }
+    );
+  }
+
+  const identifiers: Array<{
+    mention: InvoiceMention;
+    label: string;
+    value: unknown;
+    validate: () => { isValid: boolean; error?: object };
+  }> = [
+    {
+      mention: 'seller.ice',
+      label: 'Seller ICE',
+      value: seller.ice,
+      validate: () => validateICE(seller.ice as string),
+    },
+    {
+      mention: 'seller.if',
+      label: 'Seller IF',
+      value: seller.if,
+      validate: () => validateIF(seller.if),
+    },
+    {
+      mention: 'seller.rc',
+      label: 'Seller RC',
+      value: seller.rc,
+      validate: () =>
+        validateRC(
+          seller.rc as string,
+          isPresent(seller.rcCourt) ? seller.rcCourt : undefined
+        ),
+    },
+    {
+      mention: 'seller.tp',
+      label: 'Seller TP',
+      value: seller.tp,
+      validate: () => validateTP(seller.tp),
+    },
+  ];
+
+  if (buyer.isBusiness !== false || isPresent(buyer.ice)) {
+    identifiers.push({
+      mention: 'buyer.ice',
+      label: 'Buyer ICE',
+      value: buyer.ice,
+      validate: () => validateICE(buyer.ice as string),
+    });
+  }
+
+  identifiers.forEach(({ mention, label, value, validate }) => {
+    if (!isPresent(value)) {
+      report(
+        mention,
+        InvoiceValidationErrorCode.MISSING_MENTION,
+        `${label} is required`
+      );
+      return;
+    }
+
+    const validation = validate();
+    if (!validation.isValid) {
+      report(
+        mention,
+        InvoiceValidationErrorCode.INVALID_MENTION,
+        `${label} is invalid`,
+        { value, error: validation.error }
+      );
+    }
+  });
+
+  checkTotals(invoice, report);
+
+  if (!isPresent(invoice.paymentTerms) && !isPresent(invoice.dueDate)) {
+    report(
+      'paymentTerms',
+      InvoiceValidationErrorCode.MISSING_MENTION,
+      'Payment terms or due date are required'
+    );
+  } else if (isPresent(invoice.dueDate) && !isValidDate(invoice.dueDate)) {
+    report(
+      'paymentTerms',
+      InvoiceValidationErrorCode.INVALID_MENTION,
+      'Due date is not a valid date',
+      { dueDate: invoice.dueDate }
+    );
+  }
+
+  return { isCompliant: issues.length === 0, issues };
+}
+
+/**
+ * Checks the totals of an invoice: HT, TVA and TTC are required and must add
+ * up, as must the totals by rate, which must use legal TVA rates and whose
+ * TVA must match their rate, up to the rounding of their lines.
+ */
+function checkTotals(invoice: Invoice, report: ReportIssue): void {
+  const { exclTax, vat, inclTax, byRate } = invoice.totals ?? {};
+  const missing = Object.entries({ exclTax, vat, inclTax })
+    .filter(([, amount]) => amount === undefined || amount === null)
+    .map(([name]) => name);
+
+  if (missing.length > 0) {
+    report(
+      'totals',
+      InvoiceValidationErrorCode.MISSING_MENTION,
+      'Totals excluding tax, of TVA and including tax are required',
+      { missing }
+    );
+  } else if (![exclTax, vat, inclTax].every(isAmount)) {
+    report(
+      'totals',
+      InvoiceValidationErrorCode.INVALID_MENTION,
+      'Totals must be non-negative integer amounts in centimes',
+      { exclTax, vat, inclTax }
+    );
+  } else if ((exclTax as number) + (vat as number) !== inclTax) {
+    report(
+      'totals',
+      InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      'Total including tax must equal total excluding tax plus TVA',
+      { exclTax, vat, inclTax }
+    );
+  }
+
+  if (!Array.isArray(byRate) || byRate.length === 0) {
+    report(
+      'totals.byRate',
+      InvoiceValidationErrorCode.MISSING_MENTION,
+      'Totals by TVA rate are required'
+    );
+    return;
+  }
+
+  const invalid = byRate.filter(
+    (total: InvoiceRateTotal) =>
+      typeof total !== 'object' ||
+      total === null ||
+      !(VAT_RATES as ReadonlyArray<number>).includes(total.rate) ||
+      !isAmount(total.exclTax) ||
+      !isAmount(total.vat) ||
+      !(
+        total.lines === undefined ||
+        (Number.isInteger(total.lines) && total.lines > 0)
+      )
+  );
+  if (invalid.length > 0) {
+    report(
+      'totals.byRate',
+      InvoiceValidationErrorCode.INVALID_MENTION,
+      `Totals by rate must use TVA rates ${VAT_RATES.join(', ')} and integer amounts in centimes`,
+      { invalid }
+    );
+    return;
+  }
+
+  const sumExclTax = byRate.reduce((sum, total) => sum + total.exclTax, 0);
+  const sumVAT = byRate.reduce((sum, total) => sum + total.vat, 0);
+  if (
+    isAmount(exclTax) &&
+    isAmount(vat) &&
+    (sumExclTax !== exclTax || sumVAT !== vat)
+  ) {
+    report(
+      'totals.byRate',
+      InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      'Totals by rate must add up to the totals of the invoice',
+      { sumExclTax, exclTax, sumVAT, vat }
+    );
+    return;
+  }
+
+  const wrongVAT = byRate
+    .map(total => ({
+      ...total,
+      expectedVAT: divideAndRound(total.exclTax * total.rate, 100),
+    }))
+    .filter(
+      ({ vat: rateVAT, expectedVAT, lines }) =>
+        Math.abs(rateVAT - expectedVAT) > getVATTolerance(lines)
+    );
+  if (wrongVAT.length > 0) {
+    report(
+      'totals.byRate',
+      InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      'TVA of each rate must match its rate applied to the total excluding tax',
+      { wrongVAT }
+    );
+  }
+}
+
+/**
+ * Returns the TVA rounding difference allowed for a rate. Rounding the TVA of
+ * each line, then of the total, is off by at most half a centime each time.
+ */
+function getVATTolerance(lines: number | undefined): number {
+  return lines === undefined
+    ? VAT_ROUNDING_TOLERANCE
+    : Math.floor((lines + 1) / 2);
+}
+
+function isPresent(value: unknown): boolean {
+  return (
+    value !== undefined &&
+    value !== null &&
+    !(typeof value === 'string' && value.trim() === '')
+  );
+}
+
+/**
+ * Checks that a date is a valid Date or a YYYY-MM-DD string naming a real
+ * day, as `new Date()` rolls over days such as 2024-02-30
+ */
+function isValidDate(value: unknown): boolean {
+  if (value instanceof Date) {
+    return !isNaN(value.getTime());
+  }
+
+  const day =
+    typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!day) {
+    return false;
+  }
+
+  const [, year, month, dayOfMonth] = day.map(Number);
+  const utc = new Date(Date.UTC(year, month - 1, dayOfMonth));
+  return utc.getUTCMonth() === month - 1 && utc.getUTCDate() === dayOfMonth;
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
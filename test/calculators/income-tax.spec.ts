@@ -0,0 +1,137 @@
+import {
+  computeIncomeTax,
+  getIncomeTaxRules,
+  IncomeTaxCalculationError,
+  IncomeTaxCalculationErrorCode,
+} from '../../src/calculators/income-tax';
+
+describe('Income tax calculator', () => {
+  describe('getIncomeTaxRules', () => {
+    test('should return the rules of the latest finance law', () => {
+      expect(getIncomeTaxRules(2022).financeLaw).toBe('LF 2010');
+      expect(getIncomeTaxRules(2023).financeLaw).toBe('LF 2023');
+      expect(getIncomeTaxRules(2024).financeLaw).toBe('LF 2023');
+      expect(getIncomeTaxRules(2025).financeLaw).toBe('LF 2025');
+      expect(getIncomeTaxRules(2026).financeLaw).toBe('LF 2025');
+    });
+
+    test('should throw for years without rules', () => {
+      expect(() => getIncomeTaxRules(2009)).toThrow(
+        expect.objectContaining({
+          code: IncomeTaxCalculationErrorCode.UNSUPPORTED_YEAR,
+        })
+      );
+      expect(() => getIncomeTaxRules(2025.5)).toThrow(
+        IncomeTaxCalculationError
+      );
+    });
+  });
+
+  describe('computeIncomeTax', () => {
+    test('should compute the monthly IR with its trace', () => {
+      expect(
+        computeIncomeTax(1000000, {
+          year: 2025,
+          dependents: 2,
+          socialContributions: 49480,
+        })
+      ).toEqual({
+        year: 2025,
+        financeLaw: 'LF 2025',
+        period: 'monthly',
+        grossSalary: 1000000,
+        incomeTax: 51823,
+        trace: {
+          grossIncome: 12000000,
+          professionalExpenses: { rate: 25, cap: 3500000, amount: 3000000 },
+          socialContributions: 593760,
+          netTaxableIncome: 8406240,
+          bracket: { upTo: 10000000, rate: 30, deduction: 1800000 },
+          grossTax: 721872,
+          familyCharges: { dependents: 2, perDependent: 50000, amount: 100000 },
+          annualTax: 621872,
+        },
+      });
+    });
+
+    test('should apply the rules of the year', () => {
+      const result = computeIncomeTax(1000000, {
+        year: 2024,
+        dependents: 2,
+        socialContributions: 49480,
+      });
+
+      expect(result.financeLaw).toBe('LF 2023');
+      expect(result.trace.bracket.rate).toBe(34);
+      expect(result.trace.familyCharges.perDependent).toBe(36000);
+      expect(result.incomeTax).toBe(88844);
+    });
+
+    test('should use the higher professional expenses rate for low incomes', () => {
+      const result = computeIncomeTax(300000, { year: 2025 });
+
+      expect(result.trace.professionalExpenses.rate).toBe(35);
+      expect(result.trace.netTaxableIncome).toBe(2340000);
+      expect(result.incomeTax).toBe(0);
+    });
+
+    test('should cap professional expenses and compute annual IR', () => {
+      const result = computeIncomeTax(20000000, {
+        year: 2025,
+        period: 'annual',
+      });
+
+      expect(result.trace.professionalExpenses.amount).toBe(3500000);
+      expect(result.trace.bracket.upTo).toBe(18000000);
+      expect(result.incomeTax).toBe(3410000);
+    });
+
+    test('should limit the family charges deduction', () => {
+      const low = computeIncomeTax(7000000, {
+        year: 2025,
+        period: 'annual',
+        dependents: 3,
+      });
+      expect(low.trace.grossTax).toBe(55000);
+      expect(low.trace.familyCharges.amount).toBe(55000);
+      expect(low.incomeTax).toBe(0);
+
+      const many = computeIncomeTax(1000000, { year: 2025, dependents: 8 });
+      expect(many.trace.familyCharges).toEqual({
+        dependents: 6,
+        perDependent: 50000,
+        amount: 300000,
+      });
+    });
+
+    test('should default to the current year', () => {
+      const year = new Date().getFullYear();
+      expect(computeIncomeTax(1000000).year).toBe(year);
+    });
+
+    test('should throw for invalid input', () => {
+      expect(() => computeIncomeTax(-100, { year: 2025 })).toThrow(
+        expect.objectContaining({
+          code: IncomeTaxCalculationErrorCode.INVALID_AMOUNT,
+        })
+      );
+      expect(() => computeIncomeTax(100.5, { year: 2025 })).toThrow(
+        IncomeTaxCalculationError
+      );
+      expect(() =>
+        computeIncomeTax(100000, { year: 2025, dependents: 1.5 })
+      ).toThrow(
+        expect.objectContaining({
+          code: IncomeTaxCalculationErrorCode.INVALID_DEPENDENTS,
+        })
+      );
+      expect(() =>
+        computeIncomeTax(100000, { year: 2025, period: 'weekly' as 'annual' })
+      ).toThrow(
+        expect.objectContaining({
+          code: IncomeTaxCalculationErrorCode.INVALID_PERIOD,
+        })
+      );
+    });
+  });
+});
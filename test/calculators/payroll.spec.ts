@@ -0,0 +1,145 @@
+import {
+  computeGrossSalary,
+  computeNetSalary,
+  getPayrollRates,
+  PayrollCalculationError,
+  PayrollCalculationErrorCode,
+} from '../../src/calculators/payroll';
+
+describe('Payroll calculator', () => {
+  const date = '2025-03-31';
+
+  describe('getPayrollRates', () => {
+    test('should return the rates in force at a date', () => {
+      const rates = getPayrollRates(date);
+
+      expect(rates.effectiveFrom).toBe('2014-12-01');
+      expect(rates.cnssCeiling).toBe(600000);
+      expect(getPayrollRates(new Date(2014, 11, 1)).effectiveFrom).toBe(
+        '2014-12-01'
+      );
+    });
+
+    test('should switch rates on their effective date', () => {
+      const before = getPayrollRates('2014-11-30');
+      const after = getPayrollRates('2014-12-01');
+
+      expect(before.effectiveFrom).toBe('2010-01-01');
+      expect(before.employee[0]).toEqual({
+        name: 'socialBenefits',
+        rate: 429,
+        capped: true,
+      });
+      expect(after.employee[0].rate).toBe(448);
+      expect(before.employer[0].rate).toBe(860);
+      expect(after.employer[0].rate).toBe(898);
+
+      const payslipBefore = computeNetSalary(1000000, { date: '2014-11-30' });
+      const payslipAfter = computeNetSalary(1000000, { date: '2014-12-01' });
+      expect(payslipBefore.ratesEffectiveFrom).toBe('2010-01-01');
+      expect(payslipBefore.employee.total).toBe(48340);
+      expect(payslipAfter.ratesEffectiveFrom).toBe('2014-12-01');
+      expect(payslipAfter.employee.total).toBe(49480);
+      expect(payslipBefore.incomeTax.financeLaw).toBe('LF 2010');
+    });
+
+    test('should throw for dates before the bundled rates', () => {
+      expect(() => getPayrollRates('2009-12-31')).toThrow(
+        expect.objectContaining({
+          code: PayrollCalculationErrorCode.UNSUPPORTED_DATE,
+        })
+      );
+    });
+
+    test('should throw for invalid dates', () => {
+      ['2025-02-30', 'not a date'].forEach(invalid => {
+        expect(() => getPayrollRates(invalid)).toThrow(
+          expect.objectContaining({
+            code: PayrollCalculationErrorCode.INVALID_DATE,
+          })
+        );
+      });
+    });
+  });
+
+  describe('computeNetSalary', () => {
+    test('should compute contributions, IR and net salary', () => {
+      const payslip = computeNetSalary(1000000, { date, dependents: 2 });
+
+      expect(payslip.date).toBe(date);
+      expect(payslip.employee).toEqual({
+        contributions: [
+          { name: 'socialBenefits', base: 600000, rate: 448, amount: 26880 },
+          { name: 'amo', base: 1000000, rate: 226, amount: 22600 },
+        ],
+        total: 49480,
+      });
+      expect(payslip.employer).toEqual({
+        contributions: [
+          { name: 'socialBenefits', base: 600000, rate: 898, amount: 53880 },
+          { name: 'familyAllowances', base: 1000000, rate: 640, amount: 64000 },
+          { name: 'amo', base: 1000000, rate: 226, amount: 22600 },
+          { name: 'amoParticipation', base: 1000000, rate: 185, amount: 18500 },
+          { name: 'trainingTax', base: 1000000, rate: 160, amount: 16000 },
+        ],
+        total: 174980,
+      });
+      expect(payslip.incomeTax.financeLaw).toBe('LF 2025');
+      expect(payslip.incomeTax.trace.socialContributions).toBe(593760);
+      expect(payslip.incomeTax.incomeTax).toBe(51823);
+      expect(payslip.netSalary).toBe(898697);
+      expect(payslip.employerCost).toBe(1174980);
+    });
+
+    test('should not cap contributions below the CNSS ceiling', () => {
+      const payslip = computeNetSalary(400000, { date });
+
+      expect(payslip.employee.contributions[0].base).toBe(400000);
+      expect(payslip.employee.total).toBe(26960);
+      expect(payslip.incomeTax.incomeTax).toBe(0);
+      expect(payslip.netSalary).toBe(373040);
+    });
+
+    test('should apply the IR rules of the year of the payslip', () => {
+      expect(
+        computeNetSalary(1000000, { date: '2024-12-31', dependents: 2 })
+          .incomeTax.incomeTax
+      ).toBe(88844);
+    });
+
+    test('should throw for invalid salaries', () => {
+      expect(() => computeNetSalary(-1, { date })).toThrow(
+        PayrollCalculationError
+      );
+      expect(() => computeNetSalary(1000.5, { date })).toThrow(
+        expect.objectContaining({
+          code: PayrollCalculationErrorCode.INVALID_AMOUNT,
+        })
+      );
+    });
+  });
+
+  describe('computeGrossSalary', () => {
+    test('should find the gross salary of a net salary', () => {
+      const payslip = computeGrossSalary(898697, { date, dependents: 2 });
+
+      // 9 999,99 DH gross gives the same net salary as 10 000 DH
+      expect(payslip.grossSalary).toBe(999999);
+      expect(payslip.netSalary).toBe(898697);
+    });
+
+    test('should return the lowest gross salary reaching the net salary', () => {
+      [0, 250000, 373040, 1234567, 5000000].forEach(netSalary => {
+        const payslip = computeGrossSalary(netSalary, { date });
+
+        expect(payslip.netSalary).toBeGreaterThanOrEqual(netSalary);
+        expect(payslip.netSalary - netSalary).toBeLessThanOrEqual(1);
+        if (payslip.grossSalary > 0) {
+          expect(
+            computeNetSalary(payslip.grossSalary - 1, { date }).netSalary
+          ).toBeLessThan(netSalary);
+        }
+      });
+    });
+  });
+});
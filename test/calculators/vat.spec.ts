@@ -0,0 +1,208 @@
+import {
+  addVAT,
+  computeDeductibleVAT,
+  computeInvoiceVAT,
+  computeVATProrata,
+  formatVATBreakdown,
+  removeVAT,
+  VATCalculationError,
+  VATCalculationErrorCode,
+} from '../../src/calculators/vat';
+import { VATRate } from '../../src/types/vat';
+
+describe('TVA calculator', () => {
+  describe('addVAT', () => {
+    test('should compute TVA and TTC from HT', () => {
+      expect(addVAT(100000, 20)).toEqual({
+        rate: 20,
+        exclTax: 100000,
+        vat: 20000,
+        inclTax: 120000,
+      });
+      expect(addVAT(1999, 7)).toEqual({
+        rate: 7,
+        exclTax: 1999,
+        vat: 140,
+        inclTax: 2139,
+      });
+      expect(addVAT(5000, 0)).toEqual({
+        rate: 0,
+        exclTax: 5000,
+        vat: 0,
+        inclTax: 5000,
+      });
+    });
+
+    test('should round half away from zero', () => {
+      expect(addVAT(25, 10).vat).toBe(3);
+      expect(addVAT(-25, 10).vat).toBe(-3);
+    });
+
+    test('should throw for invalid amounts and rates', () => {
+      expect(() => addVAT(10.5, 20)).toThrow(VATCalculationError);
+      expect(() => addVAT(1000, 19 as VATRate)).toThrow(
+        expect.objectContaining({ code: VATCalculationErrorCode.INVALID_RATE })
+      );
+    });
+  });
+
+  describe('removeVAT', () => {
+    test('should compute HT and TVA from TTC', () => {
+      expect(removeVAT(120000, 20)).toEqual({
+        rate: 20,
+        exclTax: 100000,
+        vat: 20000,
+        inclTax: 120000,
+      });
+      expect(removeVAT(1000, 14)).toEqual({
+        rate: 14,
+        exclTax: 877,
+        vat: 123,
+        inclTax: 1000,
+      });
+    });
+
+    test('should throw for invalid amounts', () => {
+      expect(() => removeVAT(NaN, 20)).toThrow(
+        expect.objectContaining({
+          code: VATCalculationErrorCode.INVALID_AMOUNT,
+        })
+      );
+    });
+  });
+
+  describe('computeInvoiceVAT', () => {
+    test('should break TVA down by rate', () => {
+      expect(
+        computeInvoiceVAT([
+          { unitPrice: 5000, rate: 7 },
+          { unitPrice: 1999, quantity: 3, rate: 20 },
+          { unitPrice: 10000, rate: 0 },
+        ])
+      ).toEqual({
+        byRate: [
+          { rate: 20, exclTax: 5997, vat: 1199, inclTax: 7196 },
+          { rate: 7, exclTax: 5000, vat: 350, inclTax: 5350 },
+          { rate: 0, exclTax: 10000, vat: 0, inclTax: 10000 },
+        ],
+        exclTax: 20997,
+        vat: 1549,
+        inclTax: 22546,
+      });
+    });
+
+    test('should round per line or per invoice', () => {
+      const lines = [1002, 1002, 1002].map(unitPrice => ({
+        unitPrice,
+        rate: 20 as VATRate,
+      }));
+
+      expect(computeInvoiceVAT(lines).vat).toBe(601);
+      expect(computeInvoiceVAT(lines, { rounding: 'line' }).vat).toBe(600);
+    });
+
+    test('should handle prices including tax', () => {
+      const lines = [
+        { unitPrice: 1000, rate: 14 as VATRate },
+        { unitPrice: 1000, rate: 14 as VATRate },
+      ];
+
+      expect(computeInvoiceVAT(lines, { prices: 'inclTax' })).toEqual({
+        byRate: [{ rate: 14, exclTax: 1754, vat: 246, inclTax: 2000 }],
+        exclTax: 1754,
+        vat: 246,
+        inclTax: 2000,
+      });
+      expect(
+        computeInvoiceVAT(lines, { prices: 'inclTax', rounding: 'line' })
+      ).toEqual({
+        byRate: [{ rate: 14, exclTax: 1754, vat: 246, inclTax: 2000 }],
+        exclTax: 1754,
+        vat: 246,
+        inclTax: 2000,
+      });
+    });
+
+    test('should round line amounts with fractional quantities', () => {
+      expect(
+        computeInvoiceVAT([{ unitPrice: 1999, quantity: 1.1, rate: 20 }])
+          .exclTax
+      ).toBe(2199);
+    });
+
+    test('should throw for invalid lines and options', () => {
+      expect(() =>
+        computeInvoiceVAT([{ unitPrice: 100, rate: 20, quantity: NaN }])
+      ).toThrow(
+        expect.objectContaining({
+          code: VATCalculationErrorCode.INVALID_QUANTITY,
+        })
+      );
+      expect(() =>
+        computeInvoiceVAT([{ unitPrice: 100, rate: 5 as VATRate }])
+      ).toThrow(
+        expect.objectContaining({
+          code: VATCalculationErrorCode.INVALID_RATE,
+          details: expect.objectContaining({ line: 0 }),
+        })
+      );
+      expect(() =>
+        computeInvoiceVAT([], { rounding: 'total' as 'line' })
+      ).toThrow(
+        expect.objectContaining({
+          code: VATCalculationErrorCode.INVALID_OPTIONS,
+        })
+      );
+    });
+  });
+
+  describe('prorata', () => {
+    test('should round the prorata up to the next whole percent', () => {
+      expect(computeVATProrata(6543200, 10000000)).toBe(66);
+      expect(computeVATProrata(6500000, 10000000)).toBe(65);
+      expect(computeVATProrata(0, 10000000)).toBe(0);
+      expect(computeVATProrata(10000000, 10000000)).toBe(100);
+    });
+
+    test('should split deductible TVA', () => {
+      expect(computeDeductibleVAT(20000, 6543200, 10000000)).toEqual({
+        prorata: 66,
+        deductible: 13200,
+        nonDeductible: 6800,
+      });
+    });
+
+    test('should throw for invalid turnovers', () => {
+      expect(() => computeVATProrata(200, 100)).toThrow(
+        expect.objectContaining({
+          code: VATCalculationErrorCode.INVALID_TURNOVER,
+        })
+      );
+      expect(() => computeVATProrata(0, 0)).toThrow(VATCalculationError);
+    });
+  });
+
+  describe('formatVATBreakdown', () => {
+    test('should format amounts with formatMAD', () => {
+      const breakdown = computeInvoiceVAT([{ unitPrice: 123456, rate: 20 }]);
+      const nbsp = '\u202f';
+
+      expect(formatVATBreakdown(breakdown)).toEqual({
+        byRate: [
+          {
+            rate: 20,
+            exclTax: `1${nbsp}234,56${nbsp}DH`,
+            vat: `246,91${nbsp}DH`,
+            inclTax: `1${nbsp}481,47${nbsp}DH`,
+          },
+        ],
+        exclTax: `1${nbsp}234,56${nbsp}DH`,
+        vat: `246,91${nbsp}DH`,
+        inclTax: `1${nbsp}481,47${nbsp}DH`,
+      });
+      expect(
+        formatVATBreakdown(breakdown, { symbol: 'MAD', decimals: 0 }).vat
+      ).toBe(`247${nbsp}MAD`);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { extractBankMetadata } from '../../src/extractors/bank';
+
+describe('extractBankMetadata', () => {
+  test('should extract city, branch and SWIFT from a RIB', () => {
+    const result = extractBankMetadata('011 27000 01234567890123 80');
+
+    expect(result?.bank.code).toBe('011');
+    expect(result?.localityCode).toBe('270');
+    expect(result?.city).toBe('Fes');
+    expect(result?.branch).toEqual({
+      code: 'FES',
+      swift: 'BCPOMAMCFES',
+      city: 'Fes',
+    });
+    expect(result?.swift).toBe('BCPOMAMCFES');
+  });
+
+  test('should extract the same information from an IBAN', () => {
+    const result = extractBankMetadata('MA64 0071 0800 0779 2000 3031 2071');
+
+    expect(result?.bank.name).toBe('Attijariwafa Bank');
+    expect(result?.localityCode).toBe('108');
+    expect(result?.city).toBeUndefined();
+    expect(result?.branch).toBeUndefined();
+    expect(result?.swift).toBe('BCMAMAMC');
+  });
+
+  test('should prefer the generic branch when a bank has several in the city', () => {
+    const result = extractBankMetadata('007780000123456789012396');
+
+    expect(result?.city).toBe('Casablanca');
+    expect(result?.branch?.code).toBe('BAS');
+    expect(result?.swift).toBe('BCMAMAMCBAS');
+  });
+
+  test('should fall back to the bank SWIFT when the city has no branch', () => {
+    const result = extractBankMetadata('011 78000 01234567890123 86');
+
+    expect(result?.city).toBe('Casablanca');
+    expect(result?.branch).toBeUndefined();
+    expect(result?.swift).toBe('BCPOMAMC');
+
+    const rabat = extractBankMetadata('007 81000 01234567890123 45');
+    expect(rabat?.city).toBe('Rabat');
+    expect(rabat?.branch).toBeUndefined();
+    expect(rabat?.swift).toBe('BCMAMAMC');
+  });
+
+  test('should not match specialised branches to ordinary accounts', () => {
+    const cases = [
+      // Offshore branches in Tanger
+      { rib: '022640000123456789012354', swift: 'BMCIMAMC' },
+      { rib: '019640000123456789012313', swift: 'SGMBMAMC' },
+      // Participative branches
+      { rib: '022780000123456789012310', swift: 'BMCIMAMC' },
+      { rib: '021810000123456789012310', swift: 'CNCAMAMR' },
+      // Trade centers
+      { rib: '014780000123456789012330', swift: 'CDMAMAMC' },
+      { rib: '014640000123456789012374', swift: 'CDMAMAMC' },
+    ];
+
+    cases.forEach(({ rib, swift }) => {
+      const result = extractBankMetadata(rib);
+      expect(result?.city).toBeDefined();
+      expect(result?.branch).toBeUndefined();
+      expect(result?.swift).toBe(swift);
+    });
+  });
+
+  test('should skip specialised branches next to the generic one', () => {
+    const result = extractBankMetadata('011640000123456789012333');
+
+    expect(result?.city).toBe('Tanger');
+    expect(result?.branch?.code).toBe('TAT');
+    expect(result?.swift).toBe('BCPOMAMCTAT');
+  });
+
+  test('should decode the city of listed locality codes', () => {
+    const cases = [
+      { rib: '011010000123456789012337', city: 'Agadir' },
+      { rib: '011450000123456789012365', city: 'Marrakech' },
+      { rib: '011480000123456789012314', city: 'Meknes' },
+    ];
+
+    cases.forEach(({ rib, city }) => {
+      const result = extractBankMetadata(rib);
+      expect(result?.localityCode).toBe(rib.substring(3, 6));
+      expect(result?.city).toBe(city);
+    });
+  });
+
+  test('should leave the city undefined for unlisted locality codes', () => {
+    const result = extractBankMetadata('011 59100 01234567890123 29');
+
+    expect(result?.localityCode).toBe('591');
+    expect(result?.city).toBeUndefined();
+    expect(result?.branch).toBeUndefined();
+    expect(result?.swift).toBe('BCPOMAMC');
+  });
+
+  test('should return null for invalid accounts', () => {
+    expect(extractBankMetadata('011 27000 01234567890123 81')).toBeNull();
+    expect(
+      extractBankMetadata('MA65 0071 0800 0779 2000 3031 2071')
+    ).toBeNull();
+    expect(extractBankMetadata('invalid')).toBeNull();
+    expect(extractBankMetadata(null)).toBeNull();
+  });
+});
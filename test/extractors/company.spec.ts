@@ -0,0 +1,142 @@
+import { extractCompanyIdentifiers, extractIFs } from '../../src';
+
+describe('Company identifiers extractors', () => {
+  describe('extractIFs', () => {
+    test('should extract labeled identifiers', () => {
+      expect(
+        extractIFs('RC 12345 - IF: 40123456 - ICE 001663252000092')
+      ).toEqual(['40123456']);
+      expect(
+        extractIFs(
+          'Identifiant fiscal 1234567, I.F. n° 40.123.457 et IF 40 123 458'
+        )
+      ).toEqual(['1234567', '40123457', '40123458']);
+      expect(extractIFs('رقم التعريف الضريبي: 40123456')).toEqual(['40123456']);
+    });
+
+    test('should return unique identifiers', () => {
+      expect(extractIFs('IF 40123456 ... IF: 40123456')).toEqual(['40123456']);
+    });
+
+    test('should ignore unlabeled and invalid numbers', () => {
+      expect(extractIFs('Tel 0522123456, CNSS 1234567')).toEqual([]);
+      expect(extractIFs('IF 123456789')).toEqual([]);
+      expect(extractIFs('IF 00000000')).toEqual([]);
+      expect(extractIFs('VERIF 40123456')).toEqual([]);
+    });
+
+    test('should return an empty array for non-string input', () => {
+      expect(extractIFs(null as unknown as string)).toEqual([]);
+    });
+  });
+
+  describe('extractCompanyIdentifiers', () => {
+    const footer =
+      'SARL AU - R.C. n° 12345 - Rabat - IF: 40123456 - ' +
+      'ICE : 001 663 252 000 092 - Patente 25700010 - CNSS 1234567';
+
+    test('should find labeled identifiers with their offsets', () => {
+      const matches = extractCompanyIdentifiers(footer);
+
+      expect(
+        matches.map(({ type, match, start, end }) => ({
+          type,
+          match,
+          start,
+          end,
+        }))
+      ).toEqual([
+        { type: 'RC', match: 'R.C. n° 12345 - Rabat', start: 10, end: 31 },
+        { type: 'IF', match: 'IF: 40123456', start: 34, end: 46 },
+        { type: 'ICE', match: 'ICE : 001 663 252 000 092', start: 49, end: 74 },
+        { type: 'TP', match: 'Patente 25700010', start: 77, end: 93 },
+        { type: 'CNSS', match: 'CNSS 1234567', start: 96, end: 108 },
+      ]);
+      matches.forEach(({ match, start, end }) => {
+        expect(footer.slice(start, end)).toBe(match);
+      });
+    });
+
+    test('should validate each identifier', () => {
+      const matches = extractCompanyIdentifiers(footer);
+
+      expect(matches.every(({ validation }) => validation.isValid)).toBe(true);
+      expect(matches.map(({ validation }) => validation.sanitized)).toEqual([
+        '12345',
+        '40123456',
+        '001663252000092',
+        '25700010',
+        '1234567',
+      ]);
+      expect(matches[0].validation).toMatchObject({
+        components: { court: 'Rabat', number: '12345' },
+      });
+    });
+
+    test('should read the RC court before or after the number', () => {
+      const [before] = extractCompanyIdentifiers('RC Casablanca 123456');
+      const [after] = extractCompanyIdentifiers('RC : 54321 (Fès) | TP 1');
+
+      expect(before.validation).toMatchObject({
+        isValid: true,
+        components: { court: 'Casablanca', number: '123456' },
+      });
+      expect(after).toMatchObject({
+        match: 'RC : 54321 (Fès)',
+        validation: { components: { court: 'Fès', number: '54321' } },
+      });
+    });
+
+    test('should read a known court after the number and a space', () => {
+      const [french] = extractCompanyIdentifiers(
+        'RC: 123456 Casablanca - ICE 001663252000092'
+      );
+      const [arabic] = extractCompanyIdentifiers(
+        'السجل التجاري رقم 12345 الرباط'
+      );
+
+      expect(french).toMatchObject({
+        match: 'RC: 123456 Casablanca',
+        validation: {
+          isValid: true,
+          components: { court: 'Casablanca', number: '123456' },
+        },
+      });
+      expect(arabic).toMatchObject({
+        match: 'السجل التجاري رقم 12345 الرباط',
+        validation: { isValid: true, components: { number: '12345' } },
+      });
+      expect(
+        extractCompanyIdentifiers('RC 12345 payable à 30 jours')[0].validation
+          .error?.code
+      ).toBe('RC_003');
+    });
+
+    test('should return invalid identifiers with their errors', () => {
+      const matches = extractCompanyIdentifiers(
+        'RC 12345 - ICE 001663252000093'
+      );
+
+      expect(matches.map(({ type }) => type)).toEqual(['RC', 'ICE']);
+      expect(matches[0].validation.error?.code).toBe('RC_003');
+      expect(matches[1].validation.error?.code).toBe('ICE_004');
+    });
+
+    test('should find identifiers with Arabic labels', () => {
+      const matches = extractCompanyIdentifiers(
+        'التعريف الموحد للمقاولة: 001663252000092 - الضريبة المهنية 25700010'
+      );
+
+      expect(matches.map(({ type }) => type)).toEqual(['ICE', 'TP']);
+    });
+
+    test('should ignore unlabeled numbers and lookalike labels', () => {
+      expect(extractCompanyIdentifiers('001663252000092 40123456')).toEqual([]);
+      expect(extractCompanyIdentifiers('HTTP 25700010, TPI 12')).toEqual([]);
+    });
+
+    test('should return an empty array for non-string input', () => {
+      expect(extractCompanyIdentifiers(null as unknown as string)).toEqual([]);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   ICEExtractionError,
   ICEExtractionErrorCode,
 } from '../../src/extractors/ice';
+import { ICEValidationErrorCode } from '../../src/types/ice';
 import * as ICEValidator from '../../src/validators/ice';
 
 jest.mock('../../src/validators/ice', () => ({
@@ -40,7 +41,7 @@ describe('ICE extractors', () => {
       mockValidateICE.mockImplementationOnce(() => ({
         isValid: false,
         error: {
-          code: 'TEST',
+          code: ICEValidationErrorCode.INVALID_CONTROL,
           message: 'Cannot extract elements from invalid ICE number',
         },
         sanitized: '123',
@@ -0,0 +1,185 @@
+import {
+  BankFormattingError,
+  formatIBAN,
+  formatIBANWhileTyping,
+  formatRIB,
+  formatRIBWhileTyping,
+} from '../../src';
+import { BankFormattingErrorCode } from '../../src/formatters/bank';
+
+describe('Bank formatter', () => {
+  const VALID_IBAN = 'MA64007108000779200030312071';
+  const VALID_RIB = '007108000779200030312071';
+
+  describe('formatIBAN', () => {
+    test('should formats IBAN in groups of 4 characters', () => {
+      expect(formatIBAN(VALID_IBAN)).toBe('MA64 0071 0800 0779 2000 3031 2071');
+    });
+
+    test('should formats already formatted and lowercase IBAN', () => {
+      expect(formatIBAN('ma64 0071 0800 0779 2000 3031 2071')).toBe(
+        'MA64 0071 0800 0779 2000 3031 2071'
+      );
+    });
+
+    test('should formats IBAN with custom separator', () => {
+      expect(formatIBAN(VALID_IBAN, { separator: '-' })).toBe(
+        'MA64-0071-0800-0779-2000-3031-2071'
+      );
+    });
+
+    test('should masks the account number', () => {
+      expect(formatIBAN(VALID_IBAN, { mask: { enabled: true } })).toBe(
+        'MA64 0071 0800 **** **** **** 2071'
+      );
+    });
+
+    test('should masks with custom character and visible digits', () => {
+      expect(
+        formatIBAN(VALID_IBAN, {
+          mask: { enabled: true, character: '#', visibleDigits: 2 },
+        })
+      ).toBe('MA64 0071 0800 #### #### #### ##71');
+    });
+
+    test('should throws error for invalid IBAN', () => {
+      expect(() => formatIBAN('MA65007108000779200030312071')).toThrow(
+        BankFormattingError
+      );
+    });
+
+    test('should throws error for invalid options', () => {
+      expect(() => formatIBAN(VALID_IBAN, { separator: '1' })).toThrow(
+        new BankFormattingError(
+          BankFormattingErrorCode.INVALID_SEPARATOR,
+          'Separator must be a single non-alphanumeric character'
+        )
+      );
+      expect(() =>
+        formatIBAN(VALID_IBAN, { mask: { enabled: true, character: '**' } })
+      ).toThrow(BankFormattingError);
+    });
+  });
+
+  describe('formatRIB', () => {
+    test('should splits RIB into its components', () => {
+      expect(formatRIB(VALID_RIB)).toBe('007 10800 07792000303120 71');
+    });
+
+    test('should follows the bank account format', () => {
+      expect(formatRIB('045810000123456789012347')).toBe(
+        '045 81000 01234567890123 47'
+      );
+    });
+
+    test('should formats RIB with custom separator', () => {
+      expect(formatRIB(VALID_RIB, { separator: '-' })).toBe(
+        '007-10800-07792000303120-71'
+      );
+    });
+
+    test('should masks the account number', () => {
+      expect(formatRIB(VALID_RIB, { mask: { enabled: true } })).toBe(
+        '007 10800 ************20 71'
+      );
+    });
+
+    test('should throws error for invalid RIB', () => {
+      expect(() => formatRIB('007108000779200030312017')).toThrow(
+        new BankFormattingError(
+          BankFormattingErrorCode.INVALID_RIB,
+          'Cannot format invalid RIB'
+        )
+      );
+    });
+  });
+
+  describe('formatIBANWhileTyping', () => {
+    test('should formats partial IBAN', () => {
+      expect(formatIBANWhileTyping('MA')).toEqual({
+        formatted: 'MA',
+        caretPosition: 2,
+      });
+      expect(formatIBANWhileTyping('ma6400')).toEqual({
+        formatted: 'MA64 00',
+        caretPosition: 7,
+      });
+    });
+
+    test('should return an empty result for missing input', () => {
+      [null, undefined, 42].forEach(input => {
+        expect(formatIBANWhileTyping(input as unknown as string)).toEqual({
+          formatted: '',
+          caretPosition: 0,
+        });
+      });
+    });
+
+    test('should limits input to IBAN length', () => {
+      expect(
+        formatIBANWhileTyping('MA640071080007792000303120719').formatted
+      ).toBe('MA64 0071 0800 0779 2000 3031 2071');
+    });
+
+    test('should keeps the caret after the same character', () => {
+      // Caret after "MA64" while editing in the middle of the input
+      expect(formatIBANWhileTyping('MA64 00710', 4)).toEqual({
+        formatted: 'MA64 0071 0',
+        caretPosition: 4,
+      });
+      // Caret after the 5th character, which moves past a separator
+      expect(formatIBANWhileTyping('MA6400710', 5)).toEqual({
+        formatted: 'MA64 0071 0',
+        caretPosition: 6,
+      });
+    });
+
+    test('should handles empty input', () => {
+      expect(formatIBANWhileTyping('')).toEqual({
+        formatted: '',
+        caretPosition: 0,
+      });
+    });
+  });
+
+  describe('formatRIBWhileTyping', () => {
+    test('should return an empty result for missing input', () => {
+      expect(formatRIBWhileTyping(null as unknown as string)).toEqual({
+        formatted: '',
+        caretPosition: 0,
+      });
+    });
+
+    test('should formats partial RIB', () => {
+      expect(formatRIBWhileTyping('007')).toEqual({
+        formatted: '007',
+        caretPosition: 3,
+      });
+      expect(formatRIBWhileTyping('00710800')).toEqual({
+        formatted: '007 10800',
+        caretPosition: 9,
+      });
+      expect(formatRIBWhileTyping('007108000779')).toEqual({
+        formatted: '007 10800 0779',
+        caretPosition: 14,
+      });
+    });
+
+    test('should follows the bank account format', () => {
+      expect(formatRIBWhileTyping('04581000').formatted).toBe('045 81000');
+    });
+
+    test('should ignores non-digit characters and limits length', () => {
+      expect(
+        formatRIBWhileTyping('007-10800-07792000303120-71-99').formatted
+      ).toBe('007 10800 07792000303120 71');
+    });
+
+    test('should keeps the caret after the same digit', () => {
+      expect(formatRIBWhileTyping('0071080', 4)).toEqual({
+        formatted: '007 1080',
+        caretPosition: 5,
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  CompanyFormattingError,
+  CompanyFormattingErrorCode,
+  formatCNSS,
+  formatIF,
+  formatTP,
+} from '../../src/formatters/company';
+
+describe('Company identifiers formatter', () => {
+  describe('formatIF', () => {
+    test('should format an IF as digits', () => {
+      expect(formatIF('40123456')).toBe('40123456');
+      expect(formatIF('I.F. n° 40.123.456')).toBe('40123456');
+    });
+
+    test('should add a prefix', () => {
+      expect(formatIF('40123456', { prefix: true })).toBe('IF 40123456');
+    });
+
+    test('should pad 7-digit identifiers', () => {
+      expect(formatIF('1234567', { padToEightDigits: true })).toBe('01234567');
+      expect(formatIF('40123456', { padToEightDigits: true })).toBe('40123456');
+      expect(
+        formatIF('1234567', { prefix: true, padToEightDigits: true })
+      ).toBe('IF 01234567');
+    });
+
+    test('should throw for invalid identifiers', () => {
+      expect(() => formatIF('1234')).toThrow(CompanyFormattingError);
+      try {
+        formatIF('ABC');
+      } catch (error) {
+        expect((error as CompanyFormattingError).code).toBe(
+          CompanyFormattingErrorCode.INVALID_IF
+        );
+      }
+    });
+  });
+
+  describe('formatTP', () => {
+    test('should format a TP number', () => {
+      expect(formatTP('Patente n° 25.700.010')).toBe('25700010');
+      expect(formatTP('25700010', { prefix: true })).toBe('TP 25700010');
+    });
+
+    test('should throw for invalid numbers', () => {
+      expect(() => formatTP('2570')).toThrow(CompanyFormattingError);
+      try {
+        formatTP('ABC');
+      } catch (error) {
+        expect((error as CompanyFormattingError).code).toBe(
+          CompanyFormattingErrorCode.INVALID_TP
+        );
+      }
+    });
+  });
+
+  describe('formatCNSS', () => {
+    test('should group immatriculation numbers', () => {
+      expect(formatCNSS('123456789')).toBe('123 456 789');
+      expect(formatCNSS('CNSS: 123.456.789', 'immatriculation')).toBe(
+        '123 456 789'
+      );
+      expect(formatCNSS('123456789', undefined, { separator: '-' })).toBe(
+        '123-456-789'
+      );
+    });
+
+    test('should keep affiliation numbers as a block', () => {
+      expect(formatCNSS('1234 567')).toBe('1234567');
+      expect(formatCNSS('1234567', 'affiliation', { prefix: true })).toBe(
+        'CNSS 1234567'
+      );
+    });
+
+    test('should throw for invalid numbers', () => {
+      expect(() => formatCNSS('1234567', 'immatriculation')).toThrow(
+        CompanyFormattingError
+      );
+      try {
+        formatCNSS('ABC');
+      } catch (error) {
+        expect((error as CompanyFormattingError).code).toBe(
+          CompanyFormattingErrorCode.INVALID_CNSS
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  CurrencyFormattingError,
+  CurrencyFormattingErrorCode,
+  formatMAD,
+  parseMAD,
+} from '../../src/formatters/currency';
+
+// Narrow no-break space
+const NNBSP = '\u202f';
+
+describe('Currency Formatter', () => {
+  describe('formatMAD', () => {
+    it('should format amounts in French with narrow no-break spaces', () => {
+      expect(formatMAD(1234.56)).toBe(`1${NNBSP}234,56${NNBSP}DH`);
+      expect(formatMAD(1234567.8)).toBe(`1${NNBSP}234${NNBSP}567,80${NNBSP}DH`);
+      expect(formatMAD(0)).toBe(`0,00${NNBSP}DH`);
+      expect(formatMAD(999)).toBe(`999,00${NNBSP}DH`);
+    });
+
+    it('should format amounts in Arabic', () => {
+      expect(formatMAD(1234.56, { locale: 'ar-MA' })).toBe(
+        `1.234,56${NNBSP}د.م.`
+      );
+      expect(formatMAD(1234.56, { locale: 'ar-MA', symbol: 'DH' })).toBe(
+        `1.234,56${NNBSP}DH`
+      );
+    });
+
+    it('should use the requested symbol', () => {
+      expect(formatMAD(10, { symbol: 'MAD' })).toBe(`10,00${NNBSP}MAD`);
+      expect(formatMAD(10, { symbol: 'د.م.' })).toBe(`10,00${NNBSP}د.م.`);
+    });
+
+    it('should round to the requested decimals', () => {
+      expect(formatMAD(1234.56, { decimals: 0 })).toBe(
+        `1${NNBSP}235${NNBSP}DH`
+      );
+      expect(formatMAD(1234.56, { decimals: 1 })).toBe(
+        `1${NNBSP}234,6${NNBSP}DH`
+      );
+      expect(formatMAD(1.005)).toBe(`1,01${NNBSP}DH`);
+      expect(formatMAD(999.995)).toBe(`1${NNBSP}000,00${NNBSP}DH`);
+    });
+
+    it('should format negative amounts', () => {
+      expect(formatMAD(-1234.5)).toBe(`-1${NNBSP}234,50${NNBSP}DH`);
+      expect(formatMAD(-0.001)).toBe(`0,00${NNBSP}DH`);
+    });
+
+    it('should throw on invalid amounts and options', () => {
+      const expectCode = (
+        fn: () => unknown,
+        code: CurrencyFormattingErrorCode
+      ) => {
+        expect(fn).toThrow(CurrencyFormattingError);
+        try {
+          fn();
+        } catch (error) {
+          expect((error as CurrencyFormattingError).code).toBe(code);
+        }
+      };
+
+      expectCode(
+        () => formatMAD(NaN),
+        CurrencyFormattingErrorCode.INVALID_AMOUNT
+      );
+      expectCode(
+        () => formatMAD(1, { locale: 'en-US' as any }),
+        CurrencyFormattingErrorCode.INVALID_LOCALE
+      );
+      expectCode(
+        () => formatMAD(1, { symbol: '$' as any }),
+        CurrencyFormattingErrorCode.INVALID_SYMBOL
+      );
+      expectCode(
+        () => formatMAD(1, { decimals: 3 }),
+        CurrencyFormattingErrorCode.INVALID_DECIMALS
+      );
+    });
+  });
+
+  describe('parseMAD', () => {
+    it('should parse amounts into centimes', () => {
+      expect(parseMAD('1.234,56 dhs')).toBe(123456);
+      expect(parseMAD('1 234 DH')).toBe(123400);
+      expect(parseMAD('MAD 1234.5')).toBe(123450);
+      expect(parseMAD('1,234.56')).toBe(123456);
+      expect(parseMAD('0,1')).toBe(10);
+      expect(parseMAD('12 dirhams')).toBe(1200);
+    });
+
+    it('should treat a single separator before three digits as grouping', () => {
+      expect(parseMAD('1.234')).toBe(123400);
+      expect(parseMAD('1,234 DH')).toBe(123400);
+      expect(parseMAD('1.234.567')).toBe(123456700);
+    });
+
+    it('should accept Arabic-Indic digits and symbols', () => {
+      expect(parseMAD('١٢٣٤٫٥٦ د.م.')).toBe(123456);
+      expect(parseMAD('١٬٢٣٤ درهم')).toBe(123400);
+      expect(parseMAD('۱۲ د.م')).toBe(1200);
+    });
+
+    it('should read back formatted amounts', () => {
+      [0, 0.01, 1234.56, -1234.5, 1234567.89].forEach(amount => {
+        const centimes = Math.round(amount * 100);
+        expect(parseMAD(formatMAD(amount))).toBe(centimes);
+        expect(parseMAD(formatMAD(amount, { locale: 'ar-MA' }))).toBe(centimes);
+        expect(parseMAD(formatMAD(amount, { symbol: 'MAD' }))).toBe(centimes);
+      });
+    });
+
+    it('should parse negative amounts', () => {
+      expect(parseMAD('-12,50 DH')).toBe(-1250);
+      expect(parseMAD('MAD -12.5')).toBe(-1250);
+      expect(parseMAD('-0')).toBe(0);
+    });
+
+    it('should return exact centimes', () => {
+      expect(parseMAD('0,10') + parseMAD('0,20')).toBe(parseMAD('0,30'));
+    });
+
+    it('should throw on invalid input', () => {
+      [
+        '',
+        'DH',
+        'abc',
+        '12,345,67',
+        '1,2345',
+        '12.5.5,3',
+        '12,3456',
+        '1-2',
+        '1.2,3.4',
+      ].forEach(input => {
+        expect(() => parseMAD(input)).toThrow(CurrencyFormattingError);
+      });
+      expect(() => parseMAD(12 as unknown as string)).toThrow(
+        CurrencyFormattingError
+      );
+    });
+
+    it('should only accept spaces between groups of three digits', () => {
+      expect(parseMAD('1 234 567,89 DH')).toBe(123456789);
+      expect(parseMAD("1'234.50")).toBe(123450);
+      expect(parseMAD('- 1 234 DH')).toBe(-123400);
+
+      ['12 DH 50', '12 50', '1 23', '1234 567', '1 234 5', '1 234,567'].forEach(
+        input => {
+          expect(() => parseMAD(input)).toThrow(CurrencyFormattingError);
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  listBanks,
+  searchBanks,
+  listBranches,
+  listBranchCities,
+} from '../../src/lookups/';
+import { MOROCCAN_BANKS } from '../../src/constants/banks';
+
+describe('Bank directory', () => {
+  describe('listBanks', () => {
+    it('should list all banks by default', () => {
+      expect(listBanks()).toHaveLength(MOROCCAN_BANKS.length);
+    });
+
+    it('should filter banks by status', () => {
+      const active = listBanks({ active: true });
+      const inactive = listBanks({ active: false });
+
+      expect(active.every(bank => bank.active)).toBe(true);
+      expect(inactive.every(bank => !bank.active)).toBe(true);
+      expect(active.length + inactive.length).toBe(MOROCCAN_BANKS.length);
+    });
+  });
+
+  describe('searchBanks', () => {
+    it('should find banks by partial name', () => {
+      expect(searchBanks('attijari').map(bank => bank.code)).toEqual(['007']);
+      expect(searchBanks('BMCE')[0].code).toBe('013');
+      expect(searchBanks('CIH').map(bank => bank.code)).toEqual(['098']);
+    });
+
+    it('should ignore case and accents', () => {
+      expect(searchBanks('societe generale')[0].code).toBe('019');
+      expect(searchBanks('CRÉDIT AGRICOLE')[0].code).toBe('021');
+    });
+
+    it('should tolerate small typos', () => {
+      expect(searchBanks('atijari')[0].code).toBe('007');
+      expect(searchBanks('populair')[0].code).toBe('011');
+    });
+
+    it('should find banks by code or SWIFT code', () => {
+      expect(searchBanks('011')[0].code).toBe('011');
+      expect(searchBanks('CIHMMAMC')[0].code).toBe('098');
+    });
+
+    it('should find banks by common acronym', () => {
+      expect(searchBanks('AWB').map(bank => bank.code)).toEqual(['007']);
+      expect(searchBanks('BP').map(bank => bank.code)).toEqual(['011']);
+      expect(searchBanks('bcp')[0].code).toBe('011');
+      expect(searchBanks('CDM')[0].code).toBe('014');
+    });
+
+    it('should rank names starting with the query first', () => {
+      const results = searchBanks('bank');
+      expect(results[0].name).toBe('Bank of Africa (BMCE)');
+      expect(results.map(bank => bank.code)).toContain('098');
+    });
+
+    it('should return an empty list for empty or unmatched queries', () => {
+      expect(searchBanks('')).toEqual([]);
+      expect(searchBanks('   ')).toEqual([]);
+      expect(searchBanks('zzzz')).toEqual([]);
+      expect(searchBanks(null as unknown as string)).toEqual([]);
+    });
+  });
+
+  describe('listBranches', () => {
+    it('should list branches by city across all banks', () => {
+      const branches = listBranches({ city: 'Tanger' });
+
+      expect(branches.every(branch => branch.city === 'Tanger')).toBe(true);
+      expect([...new Set(branches.map(branch => branch.bankCode))]).toEqual([
+        '011',
+        '013',
+        '022',
+        '019',
+        '014',
+      ]);
+    });
+
+    it('should match cities regardless of case and accents', () => {
+      const branches = listBranches({ city: 'fès' });
+
+      expect(branches.map(branch => branch.swift)).toEqual([
+        'BCPOMAMCFES',
+        'CDMAMAMC707',
+      ]);
+      expect(branches[0]).toMatchObject({
+        bankCode: '011',
+        bankName: 'Banque Centrale Populaire',
+        type: 'standard',
+      });
+    });
+
+    it('should filter offshore branches', () => {
+      const branches = listBranches({ type: 'offshore' });
+
+      expect(branches.length).toBeGreaterThan(0);
+      expect(branches.every(branch => /offshore/i.test(branch.name!))).toBe(
+        true
+      );
+      expect(branches.map(branch => branch.swift)).toContain('SGTGMAMC');
+    });
+
+    it('should filter participative branches', () => {
+      expect(
+        listBranches({ type: 'participative' }).map(branch => branch.swift)
+      ).toEqual(['BMCIMAMCNFP', 'CDMAMAMCPAR']);
+    });
+
+    it('should filter branches by bank', () => {
+      const branches = listBranches({ bankCode: '021' });
+      expect(branches).toHaveLength(1);
+      expect(branches[0].swift).toBe('CNCAMAMRAAB');
+    });
+  });
+
+  describe('listBranchCities', () => {
+    it('should list unique cities alphabetically', () => {
+      const cities = listBranchCities();
+
+      expect(cities[0]).toBe('Agadir');
+      expect(cities).toContain('Casablanca');
+      expect(new Set(cities).size).toBe(cities.length);
+    });
+  });
+});
@@ -1,12 +1,83 @@
 import {
+  validateIBAN,
   isValidIBAN,
+  validateRIB,
   isValidRIB,
+  ribToIBAN,
+  ibanToRIB,
+  computeRIBKey,
+  generateTestRIB,
+  generateTestIBAN,
   getBankDetails,
   getSwiftCode,
+  validateBIC,
+  findBankByBIC,
   madToWords,
 } from '../../src/validators/';
+import {
+  BankValidationError,
+  BankValidationException,
+} from '../../src/validators/bank';
+import { MOROCCAN_BANKS } from '../../src/constants/banks';
 
 describe('Bank Validators', () => {
+  describe('validateIBAN', () => {
+    const VALID_IBAN = 'MA64 0071 0800 0779 2000 3031 2071';
+
+    it('should return parsed components and bank details for a valid IBAN', () => {
+      const result = validateIBAN(VALID_IBAN);
+
+      expect(result.isValid).toBe(true);
+      expect(result.error).toBeUndefined();
+      expect(result.sanitized).toBe('MA64007108000779200030312071');
+      expect(result.components).toEqual({
+        countryCode: 'MA',
+        checkDigits: '64',
+        bankCode: '007',
+        branchCode: '10800',
+        accountNumber: '07792000303120',
+        ribKey: '71',
+      });
+      expect(result.bank?.name).toBe('Attijariwafa Bank');
+    });
+
+    it('should report an invalid input type', () => {
+      const result = validateIBAN(12345 as unknown as string);
+
+      expect(result.isValid).toBe(false);
+      expect(result.sanitized).toBe('');
+      expect(result.error?.code).toBe(BankValidationError.INVALID_INPUT_TYPE);
+      expect(result.error?.details).toEqual({ providedType: 'number' });
+    });
+
+    it('should report an invalid format', () => {
+      const result = validateIBAN('FR76 1152 0111 1111 1111 1111 1111');
+
+      expect(result.isValid).toBe(false);
+      expect(result.sanitized).toBe('FR76115201111111111111111111');
+      expect(result.error?.code).toBe(BankValidationError.INVALID_IBAN_FORMAT);
+    });
+
+    it('should report an unknown bank code', () => {
+      const result = validateIBAN('MA64 9991 0800 0779 2000 3031 2071');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.INVALID_BANK_CODE);
+      expect(result.error?.details).toEqual({ bankCode: '999' });
+    });
+
+    it('should report an invalid checksum', () => {
+      const result = validateIBAN('MA65 0071 0800 0779 2000 3031 2071');
+
+      expect(result.isValid).toBe(false);
+      expect(result.components).toBeUndefined();
+      expect(result.bank).toBeUndefined();
+      expect(result.error?.code).toBe(
+        BankValidationError.INVALID_IBAN_CHECKSUM
+      );
+    });
+  });
+
   describe('isValidIBAN', () => {
     it('should return true for valid Moroccan IBAN', () => {
       // Valid Moroccan IBAN structure:
@@ -42,9 +113,75 @@ describe('Bank Validators', () => {
     });
   });
 
+  describe('validateRIB', () => {
+    const VALID_RIB = '007 10800 07792000303120 71';
+
+    it('should return parsed components for a valid RIB', () => {
+      const result = validateRIB(VALID_RIB);
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitized).toBe('007108000779200030312071');
+      expect(result.components).toEqual({
+        bankCode: '007',
+        branchCode: '10800',
+        accountNumber: '07792000303120',
+        ribKey: '71',
+      });
+      expect(result.bank?.name).toBe('Attijariwafa Bank');
+      expect(result.expectedKey).toBe('71');
+      expect(result.actualKey).toBe('71');
+    });
+
+    it('should split components according to the bank account format', () => {
+      const result = validateRIB('045 81000 01234567890123 47');
+
+      expect(result.isValid).toBe(true);
+      expect(result.components).toEqual({
+        bankCode: '045',
+        branchCode: '81000',
+        accountNumber: '01234567890123',
+        ribKey: '47',
+      });
+    });
+
+    it('should report the expected key on checksum failure', () => {
+      const result = validateRIB('007-10800-07792000303120-17');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.INVALID_RIB_CHECKSUM);
+      expect(result.components?.accountNumber).toBe('07792000303120');
+      expect(result.expectedKey).toBe('71');
+      expect(result.actualKey).toBe('17');
+    });
+
+    it('should report an unknown bank', () => {
+      const result = validateRIB('999108000779200030312071');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.BANK_NOT_FOUND);
+      expect(result.components).toBeUndefined();
+    });
+
+    it('should report an invalid length', () => {
+      const result = validateRIB('00710800077920003031207');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.INVALID_RIB_LENGTH);
+      expect(result.error?.details).toEqual({ expected: 24, received: 23 });
+    });
+
+    it('should report an invalid input type', () => {
+      const result = validateRIB(undefined as unknown as string);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.INVALID_INPUT_TYPE);
+    });
+  });
+
   describe('isValidRIB', () => {
     it('should validate a correct RIB', () => {
-      expect(isValidRIB('007000000000000000000149')).toBe(true);
+      expect(isValidRIB('007000000000000000000128')).toBe(true);
+      expect(isValidRIB('007108000779200030312071')).toBe(true);
     });
 
     it('should invalidate an incorrect RIB', () => {
@@ -56,6 +193,156 @@ describe('Bank Validators', () => {
     });
   });
 
+  describe('ribToIBAN', () => {
+    it('should convert a RIB to an IBAN', () => {
+      expect(ribToIBAN('007 10800 07792000303120 71')).toBe(
+        'MA64007108000779200030312071'
+      );
+      expect(ribToIBAN('011780000123456789012386')).toBe(
+        'MA64011780000123456789012386'
+      );
+    });
+
+    it('should produce IBANs that pass validation', () => {
+      const iban = ribToIBAN('011780000123456789012386');
+      expect(isValidIBAN(iban)).toBe(true);
+    });
+
+    it('should throw a typed error when the RIB key is wrong', () => {
+      expect.assertions(2);
+      try {
+        ribToIBAN('007108000779200030312017');
+      } catch (error) {
+        expect((error as BankValidationException).code).toBe(
+          BankValidationError.INVALID_RIB_CHECKSUM
+        );
+        expect((error as BankValidationException).details).toMatchObject({
+          expected: '71',
+          actual: '17',
+        });
+      }
+    });
+
+    it('should throw a typed error for an unknown bank', () => {
+      expect(() => ribToIBAN('999108000779200030312071')).toThrow(
+        new BankValidationException(
+          BankValidationError.BANK_NOT_FOUND,
+          'Invalid or inactive bank code'
+        )
+      );
+    });
+  });
+
+  describe('ibanToRIB', () => {
+    it('should convert an IBAN to a RIB', () => {
+      expect(ibanToRIB('MA64 0071 0800 0779 2000 3031 2071')).toBe(
+        '007108000779200030312071'
+      );
+    });
+
+    it('should round-trip with ribToIBAN', () => {
+      const rib = '011780000123456789012386';
+      expect(ibanToRIB(ribToIBAN(rib))).toBe(rib);
+    });
+
+    it('should throw a typed error when the IBAN checksum is wrong', () => {
+      expect(() => ibanToRIB('MA65 0071 0800 0779 2000 3031 2071')).toThrow(
+        new BankValidationException(
+          BankValidationError.INVALID_IBAN_CHECKSUM,
+          'Invalid IBAN checksum'
+        )
+      );
+    });
+
+    it('should throw a typed error when the embedded RIB key is wrong', () => {
+      // IBAN check digits are correct but the RIB key is not
+      expect(() => ibanToRIB('MA67 0071 0800 0779 2000 3031 2017')).toThrow(
+        new BankValidationException(
+          BankValidationError.INVALID_RIB_CHECKSUM,
+          'Invalid RIB checksum'
+        )
+      );
+    });
+  });
+
+  describe('computeRIBKey', () => {
+    it('should compute the RIB key of a payload', () => {
+      expect(computeRIBKey('0071080007792000303120')).toBe('71');
+      expect(computeRIBKey('0117800001234567890123')).toBe('86');
+    });
+
+    it('should pad single-digit keys', () => {
+      const payload = '0070000000000000000000';
+      const key = computeRIBKey(payload);
+      expect(key).toMatch(/^\d{2}$/);
+      expect(isValidRIB(`${payload}${key}`)).toBe(true);
+    });
+
+    it('should throw for non-numeric payloads', () => {
+      expect(() => computeRIBKey('007ABC')).toThrow(BankValidationException);
+    });
+  });
+
+  describe('generateTestRIB', () => {
+    it('should generate a valid RIB for every bank', () => {
+      MOROCCAN_BANKS.forEach(bank => {
+        const rib = generateTestRIB({ bankCode: bank.code });
+        expect(rib).toHaveLength(bank.ribLength);
+        expect(rib.startsWith(bank.code)).toBe(true);
+        expect(isValidRIB(rib)).toBe(true);
+      });
+    });
+
+    it('should use the provided branch code', () => {
+      const rib = generateTestRIB({ bankCode: '007', branchCode: '78000' });
+      expect(rib).toMatch(/^00778000\d{16}$/);
+      expect(isValidRIB(rib)).toBe(true);
+    });
+
+    it('should generate a valid RIB for a random bank', () => {
+      expect(isValidRIB(generateTestRIB())).toBe(true);
+    });
+
+    it('should throw for an unknown bank code', () => {
+      expect(() => generateTestRIB({ bankCode: '999' })).toThrow(
+        new BankValidationException(
+          BankValidationError.BANK_NOT_FOUND,
+          'Invalid or inactive bank code'
+        )
+      );
+    });
+
+    it('should throw for a branch code that does not fit the bank format', () => {
+      expect(() =>
+        generateTestRIB({ bankCode: '007', branchCode: '780' })
+      ).toThrow(BankValidationException);
+      expect(() =>
+        generateTestRIB({ bankCode: '007', branchCode: '78A00' })
+      ).toThrow(BankValidationException);
+    });
+  });
+
+  describe('generateTestIBAN', () => {
+    it('should generate a valid IBAN', () => {
+      const iban = generateTestIBAN({ bankCode: '011' });
+      expect(iban).toMatch(/^MA\d{2}011\d{21}$/);
+      expect(isValidIBAN(iban)).toBe(true);
+      expect(isValidRIB(ibanToRIB(iban))).toBe(true);
+    });
+
+    it('should generate a valid IBAN for every bank', () => {
+      MOROCCAN_BANKS.forEach(bank => {
+        const iban = generateTestIBAN({ bankCode: bank.code });
+        expect(iban).toMatch(bank.ibanRegex);
+        expect(isValidIBAN(iban)).toBe(true);
+      });
+    });
+
+    it('should generate unique IBANs', () => {
+      expect(generateTestIBAN()).not.toBe(generateTestIBAN());
+    });
+  });
+
   describe('getBankDetails', () => {
     it('should return bank details for a valid code', () => {
       const bank = getBankDetails('007');
@@ -82,6 +369,102 @@ describe('Bank Validators', () => {
     });
   });
 
+  describe('validateBIC', () => {
+    it('should parse an 11-character BIC', () => {
+      const result = validateBIC('bcpo mamc fes');
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitized).toBe('BCPOMAMCFES');
+      expect(result.components).toEqual({
+        institution: 'BCPO',
+        country: 'MA',
+        location: 'MC',
+        branch: 'FES',
+      });
+    });
+
+    it('should parse an 8-character BIC without branch', () => {
+      const result = validateBIC('BCMAMAMC');
+
+      expect(result.isValid).toBe(true);
+      expect(result.components).toEqual({
+        institution: 'BCMA',
+        country: 'MA',
+        location: 'MC',
+      });
+    });
+
+    it('should reject malformed BICs', () => {
+      ['BCPOMAMCFE', 'BCP0MAMC', 'BCPOMAMCFESX', ''].forEach(bic => {
+        const result = validateBIC(bic);
+        expect(result.isValid).toBe(false);
+        expect(result.error?.code).toBe(BankValidationError.INVALID_BIC_FORMAT);
+      });
+    });
+
+    it('should reject non-Moroccan BICs', () => {
+      const result = validateBIC('BNPAFRPP');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.INVALID_BIC_COUNTRY);
+      expect(result.error?.details).toEqual({ country: 'FR' });
+    });
+
+    it('should reject non-string input', () => {
+      const result = validateBIC(null as unknown as string);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe(BankValidationError.INVALID_INPUT_TYPE);
+    });
+  });
+
+  describe('findBankByBIC', () => {
+    it('should find the bank and branch of a branch BIC', () => {
+      const result = findBankByBIC('BCPOMAMCFES');
+
+      expect(result?.bank.code).toBe('011');
+      expect(result?.branch).toEqual({
+        code: 'FES',
+        swift: 'BCPOMAMCFES',
+        city: 'Fes',
+      });
+      expect(result?.isBranchKnown).toBe(true);
+    });
+
+    it('should find the bank of a head-office BIC', () => {
+      expect(findBankByBIC('BCMAMAMC')).toMatchObject({
+        bank: { code: '007' },
+        isBranchKnown: true,
+      });
+      expect(findBankByBIC('BCMAMAMCXXX')).toMatchObject({
+        bank: { code: '007' },
+        isBranchKnown: true,
+      });
+    });
+
+    it('should report unknown branch suffixes', () => {
+      const result = findBankByBIC('BCPOMAMCZZZ');
+
+      expect(result?.bank.code).toBe('011');
+      expect(result?.branch).toBeUndefined();
+      expect(result?.isBranchKnown).toBe(false);
+    });
+
+    it('should find branches with their own BIC', () => {
+      const result = findBankByBIC('SGTGMAMC');
+
+      expect(result?.bank.code).toBe('019');
+      expect(result?.branch?.name).toBe('Offshore Branch');
+      expect(result?.isBranchKnown).toBe(true);
+    });
+
+    it('should return undefined for unknown or invalid BICs', () => {
+      expect(findBankByBIC('ABCDMAMC')).toBeUndefined();
+      expect(findBankByBIC('BNPAFRPP')).toBeUndefined();
+      expect(findBankByBIC('invalid')).toBeUndefined();
+    });
+  });
+
   describe('madToWords', () => {
     it('should convert a number to words in French', () => {
       expect(madToWords(1234)).toBe('mille deux cent trente-quatre dirhams');
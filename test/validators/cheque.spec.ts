@@ -0,0 +1,94 @@
+import {
+  checkChequeAmount,
+  ChequeValidationError,
+} from '../../src/validators/cheque';
+
+describe('Cheque', () => {
+  describe('checkChequeAmount', () => {
+    it('should match an amount written in French', () => {
+      const result = checkChequeAmount(
+        1234.5,
+        'Mille deux cent trente quatre dirhams et cinquante centimes'
+      );
+
+      expect(result.isMatch).toBe(true);
+      expect(result.amountInWords).toBe(1234.5);
+      expect(result.canonicalWords).toBe(
+        'mille deux cent trente-quatre dirhams et cinquante centimes'
+      );
+      expect(result.divergences).toEqual([]);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should match an amount written in Arabic and answer in Arabic', () => {
+      const result = checkChequeAmount(200, 'مئتا درهم فقط');
+
+      expect(result.isMatch).toBe(true);
+      expect(result.canonicalWords).toBe('مائتا درهم');
+    });
+
+    it('should locate the divergence between figures and words', () => {
+      const result = checkChequeAmount(1700, 'dix-sept mille dirhams');
+
+      expect(result.isMatch).toBe(false);
+      expect(result.amountInFigures).toBe(1700);
+      expect(result.amountInWords).toBe(17000);
+      expect(result.canonicalWords).toBe('mille sept cents dirhams');
+      expect(result.divergences).toEqual([
+        { part: 'thousands', inFigures: 1, inWords: 17 },
+        { part: 'units', inFigures: 700, inWords: 0 },
+      ]);
+      expect(result.error?.code).toBe(ChequeValidationError.AMOUNT_MISMATCH);
+    });
+
+    it('should report diverging centimes and sign', () => {
+      expect(
+        checkChequeAmount(10.5, 'dix dirhams et cinq centimes').divergences
+      ).toEqual([{ part: 'centimes', inFigures: 50, inWords: 5 }]);
+      expect(checkChequeAmount(-10, 'dix dirhams').divergences).toEqual([
+        { part: 'sign', inFigures: -1, inWords: 1 },
+      ]);
+    });
+
+    it('should compare amounts to the centime', () => {
+      expect(checkChequeAmount(99.999, 'cent dirhams').isMatch).toBe(true);
+    });
+
+    it('should round figures like the canonical wording', () => {
+      const result = checkChequeAmount(1.005, 'un dirham et un centime');
+
+      expect(result.isMatch).toBe(true);
+      expect(result.amountInFigures).toBe(1.01);
+      expect(result.canonicalWords).toBe('un dirham et un centime');
+      expect(checkChequeAmount(-1.005, 'un dirham').amountInFigures).toBe(
+        -1.01
+      );
+    });
+
+    it('should use the requested wording options', () => {
+      expect(
+        checkChequeAmount(21, 'vingt et un dirhams', {
+          orthography: 'reformed',
+        }).canonicalWords
+      ).toBe('vingt-et-un dirhams');
+    });
+
+    it('should report unreadable words with the canonical wording', () => {
+      const result = checkChequeAmount(1700, 'mille sept cent pommes');
+
+      expect(result.isMatch).toBe(false);
+      expect(result.canonicalWords).toBe('mille sept cents dirhams');
+      expect(result.amountInWords).toBeUndefined();
+      expect(result.error?.code).toBe(ChequeValidationError.UNREADABLE_WORDS);
+    });
+
+    it('should reject invalid amounts in figures', () => {
+      expect(checkChequeAmount(NaN, 'dix dirhams').error?.code).toBe(
+        ChequeValidationError.INVALID_AMOUNT
+      );
+      expect(checkChequeAmount(1e12, 'dix dirhams').error?.code).toBe(
+        ChequeValidationError.INVALID_AMOUNT
+      );
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  convertMAD,
+  parseColloquialAmount,
+} from '../../src/validators/colloquial';
+import {
+  CurrencyErrorCode,
+  CurrencyException,
+} from '../../src/validators/currency';
+
+describe('Colloquial amounts', () => {
+  describe('convertMAD', () => {
+    it('should convert between dirhams, rials and centimes', () => {
+      expect(convertMAD(1, 'dirham', 'rial')).toBe(20);
+      expect(convertMAD(1, 'dirham', 'centime')).toBe(100);
+      expect(convertMAD(1000, 'rial', 'dirham')).toBe(50);
+      expect(convertMAD(1_000_000, 'centime', 'dirham')).toBe(10000);
+      expect(convertMAD(20, 'rial', 'centime')).toBe(100);
+      expect(convertMAD(5, 'centime', 'rial')).toBe(1);
+    });
+
+    it('should not introduce floating-point artifacts', () => {
+      expect(convertMAD(1.15, 'dirham', 'centime')).toBe(115);
+      expect(convertMAD(0.1, 'dirham', 'rial')).toBe(2);
+    });
+
+    it('should throw on invalid amounts and units', () => {
+      expect(() => convertMAD(NaN, 'dirham', 'rial')).toThrow(
+        CurrencyException
+      );
+      try {
+        convertMAD(1, 'euro' as any, 'rial');
+      } catch (error) {
+        expect((error as CurrencyException).code).toBe(
+          CurrencyErrorCode.INVALID_UNIT
+        );
+      }
+      expect.assertions(2);
+    });
+  });
+
+  describe('parseColloquialAmount', () => {
+    it('should read amounts in rials', () => {
+      expect(parseColloquialAmount('20 alf ryal')).toEqual({
+        amount: 20000,
+        unit: 'rial',
+        isUnitImplied: false,
+        dirhams: 1000,
+        centimes: 100000,
+      });
+      expect(parseColloquialAmount('alf ryal').dirhams).toBe(50);
+      expect(parseColloquialAmount('alfayn rial').dirhams).toBe(100);
+      expect(parseColloquialAmount('mya ryal').dirhams).toBe(5);
+    });
+
+    it('should read amounts in centimes and francs', () => {
+      expect(parseColloquialAmount('mlyon d centime').dirhams).toBe(10000);
+      expect(parseColloquialAmount('jouj mlayn dyal franc').dirhams).toBe(
+        20000
+      );
+      expect(parseColloquialAmount('1,5 mlyon santim').dirhams).toBe(15000);
+      expect(parseColloquialAmount('mlyon w nss d centimes').dirhams).toBe(
+        15000
+      );
+    });
+
+    it('should read amounts in dirhams', () => {
+      expect(parseColloquialAmount('jouj alaf dh').dirhams).toBe(2000);
+      expect(parseColloquialAmount('50dh').dirhams).toBe(50);
+      expect(parseColloquialAmount('20 000 dhs.').dirhams).toBe(20000);
+      expect(parseColloquialAmount('tlata w 3ichrin alf dirham').dirhams).toBe(
+        23000
+      );
+      expect(parseColloquialAmount('tlat mya alf dh').dirhams).toBe(300000);
+      expect(parseColloquialAmount('alf w nss dh').dirhams).toBe(1500);
+    });
+
+    it('should read French and Arabic script', () => {
+      expect(parseColloquialAmount('deux millions de centimes').dirhams).toBe(
+        20000
+      );
+      expect(parseColloquialAmount('مليون سنتيم').dirhams).toBe(10000);
+      expect(parseColloquialAmount('عشرين ألف ريال').dirhams).toBe(1000);
+    });
+
+    it('should use the default unit when none is stated', () => {
+      expect(parseColloquialAmount('20 alf')).toMatchObject({
+        unit: 'dirham',
+        isUnitImplied: true,
+        dirhams: 20000,
+      });
+      expect(
+        parseColloquialAmount('mlyon', { defaultUnit: 'centime' }).dirhams
+      ).toBe(10000);
+    });
+
+    it('should read numbers in either order within a group', () => {
+      expect(parseColloquialAmount('mya w khamsa w 3ishrin dh').dirhams).toBe(
+        125
+      );
+      expect(parseColloquialAmount('soixante dix sept dh').dirhams).toBe(77);
+      expect(parseColloquialAmount('20 5 alf dh').dirhams).toBe(25000);
+    });
+
+    it('should reject numbers that cannot follow each other', () => {
+      [
+        '20 30',
+        '20 30 dh',
+        'khamsa khamsa',
+        '200 30 40 alf',
+        '1,5 2 mlyon',
+      ].forEach(text => {
+        expect(() => parseColloquialAmount(text)).toThrow(
+          expect.objectContaining({
+            code: CurrencyErrorCode.INVALID_COLLOQUIAL_AMOUNT,
+          })
+        );
+      });
+    });
+
+    it('should reject hundreds that cannot follow the numbers before them', () => {
+      ['mya mya', 'mitayn mya', 'mya khamsa mya', 'khamsin mya'].forEach(
+        text => {
+          expect(() => parseColloquialAmount(text)).toThrow(
+            expect.objectContaining({
+              code: CurrencyErrorCode.INVALID_COLLOQUIAL_AMOUNT,
+            })
+          );
+        }
+      );
+      expect(parseColloquialAmount('tlata mya dh').dirhams).toBe(300);
+    });
+
+    it('should reject negative amounts', () => {
+      ['-5', '- 5 dh', '\u22125 alf'].forEach(text => {
+        expect(() => parseColloquialAmount(text)).toThrow(
+          expect.objectContaining({
+            code: CurrencyErrorCode.INVALID_COLLOQUIAL_AMOUNT,
+          })
+        );
+      });
+    });
+
+    it('should throw on text that is not a price', () => {
+      [
+        '',
+        'ryal',
+        'bzaf dyal lflouss',
+        'alf alf',
+        'dh 20',
+        '20 dh ryal',
+      ].forEach(text => {
+        expect(() => parseColloquialAmount(text)).toThrow(CurrencyException);
+      });
+      expect(() =>
+        parseColloquialAmount('20', { defaultUnit: 'euro' as any })
+      ).toThrow(CurrencyException);
+    });
+  });
+});
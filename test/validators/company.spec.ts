@@ -1,4 +1,27 @@
-import { validateICE } from '../../src/validators/company'; // TODO import from src directly
+import {
+  CNSSValidationErrorCode,
+  CompanyIdentityErrorCode,
+  findCommercialCourt,
+  findLegalForm,
+  generateTestCNSS,
+  IFValidationErrorCode,
+  isValidCNSS,
+  isValidIF,
+  isValidRC,
+  isValidTP,
+  parseRC,
+  RCValidationErrorCode,
+  sanitizeCNSS,
+  sanitizeIF,
+  sanitizeTP,
+  TPValidationErrorCode,
+  validateCNSS,
+  validateCompanyIdentity,
+  validateICE,
+  validateIF,
+  validateRC,
+  validateTP,
+} from '../../src/validators/company'; // TODO import from src directly
 
 describe('ICE Validator', () => {
   describe('validateICE', () => {
@@ -13,7 +36,7 @@ describe('ICE Validator', () => {
       validICEs.forEach(ice => {
         const result = validateICE(ice);
         expect(result.isValid).toBe(true);
-        expect(result.errors).toHaveLength(0);
+        expect(result.error).toBeUndefined();
       });
     });
 
@@ -33,10 +56,495 @@ describe('ICE Validator', () => {
       ];
 
       invalidICEs.forEach(ice => {
-        const result = validateICE(ice);
+        const result = validateICE(ice as string);
         expect(result.isValid).toBe(false);
-        expect(result.errors.length).toBeGreaterThan(0);
+        expect(result.error).toBeDefined();
+      });
+    });
+  });
+});
+
+describe('RC Validator', () => {
+  describe('validateRC', () => {
+    test('should read the court from the RC', () => {
+      const result = validateRC('RC Casablanca 123456');
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitized).toBe('123456');
+      expect(result.components).toEqual({
+        court: 'Casablanca',
+        number: '123456',
+      });
+      expect(result.error).toBeUndefined();
+    });
+
+    test('should normalize common RC formats', () => {
+      const formats: [string, string, string][] = [
+        ['R.C. 123456 - Rabat', 'Rabat', '123456'],
+        ['RC n° 4521 (Tribunal de commerce de Fes)', 'Fès', '4521'],
+        ['RC: 123 456 Casa', 'Casablanca', '123456'],
+        ['Tanger, R.C. N° 98765', 'Tanger', '98765'],
+        ['rc marrakech 12', 'Marrakech', '12'],
+        ['السجل التجاري رقم 3456 الدار البيضاء', 'Casablanca', '3456'],
+        ['ر.ت 3456 طنجة', 'Tanger', '3456'],
+      ];
+
+      formats.forEach(([rc, court, number]) => {
+        expect(validateRC(rc).components).toEqual({ court, number });
+      });
+    });
+
+    test('should accept the court as a separate argument', () => {
+      expect(validateRC('123456', 'Meknes').components).toEqual({
+        court: 'Meknès',
+        number: '123456',
       });
+      expect(validateRC('RC 123456', 'Kénitra').components?.court).toBe(
+        'Kénitra'
+      );
+      expect(validateRC('RC Rabat 123456', 'rabat').isValid).toBe(true);
+    });
+
+    test('should require a court', () => {
+      const result = validateRC('RC 123456');
+
+      expect(result.isValid).toBe(false);
+      expect(result.sanitized).toBe('123456');
+      expect(result.error?.code).toBe(RCValidationErrorCode.MISSING_COURT);
+    });
+
+    test('should reject unknown and mismatching courts', () => {
+      expect(validateRC('RC Paris 123456').error?.code).toBe(
+        RCValidationErrorCode.UNKNOWN_COURT
+      );
+      expect(validateRC('123456', 'Lyon').error?.code).toBe(
+        RCValidationErrorCode.UNKNOWN_COURT
+      );
+      expect(validateRC('RC Rabat 123456', 'Casablanca').error).toMatchObject({
+        code: RCValidationErrorCode.COURT_MISMATCH,
+        details: { courtInRC: 'Rabat', court: 'Casablanca' },
+      });
+    });
+
+    test('should reject invalid numbers', () => {
+      [
+        'RC Rabat',
+        'RC Rabat 12345678',
+        'RC Rabat 000',
+        'RC 12 Rabat 34',
+      ].forEach(rc => {
+        expect(validateRC(rc).error?.code).toBe(
+          RCValidationErrorCode.INVALID_FORMAT
+        );
+      });
+      expect(validateRC(123456 as unknown as string).error?.code).toBe(
+        RCValidationErrorCode.INVALID_INPUT_TYPE
+      );
+    });
+  });
+
+  describe('isValidRC', () => {
+    test('should check RC numbers', () => {
+      expect(isValidRC('RC Agadir 1234')).toBe(true);
+      expect(isValidRC('1234', 'Oujda')).toBe(true);
+      expect(isValidRC('1234')).toBe(false);
+    });
+  });
+
+  describe('parseRC', () => {
+    test('should return the court and number or null', () => {
+      expect(parseRC('R.C. 123456 - Rabat')).toEqual({
+        court: 'Rabat',
+        number: '123456',
+      });
+      expect(parseRC('123456')).toBeNull();
+    });
+  });
+
+  describe('findCommercialCourt', () => {
+    test('should find courts by city in any spelling', () => {
+      expect(findCommercialCourt('fes')?.city).toBe('Fès');
+      expect(findCommercialCourt('Tangier')?.city).toBe('Tanger');
+      expect(findCommercialCourt('الرباط')?.type).toBe('commercial');
+      expect(findCommercialCourt('El Jadida')?.type).toBe('first-instance');
+      expect(findCommercialCourt('Paris')).toBeUndefined();
+    });
+  });
+});
+
+describe('IF Validator', () => {
+  describe('sanitizeIF', () => {
+    test('should remove labels and separators', () => {
+      expect(sanitizeIF('40123456')).toBe('40123456');
+      expect(sanitizeIF('IF: 4012 3456')).toBe('40123456');
+      expect(sanitizeIF('I.F. n° 1.234.567')).toBe('1234567');
+      expect(sanitizeIF('Identifiant fiscal 40-123-456')).toBe('40123456');
+      expect(sanitizeIF(' if 1234567 ')).toBe('1234567');
+    });
+
+    test('should keep other characters', () => {
+      expect(sanitizeIF('40A23456')).toBe('40A23456');
+    });
+
+    test('should return null for non-string input', () => {
+      expect(sanitizeIF(null)).toBeNull();
+      expect(sanitizeIF(40123456)).toBeNull();
+    });
+  });
+
+  describe('validateIF', () => {
+    test('should validate 7 and 8-digit identifiers', () => {
+      expect(validateIF('40123456')).toEqual({
+        isValid: true,
+        sanitized: '40123456',
+      });
+      expect(validateIF('IF 1234567').isValid).toBe(true);
+      expect(validateIF('01234567').isValid).toBe(true);
+    });
+
+    test('should reject identifiers of the wrong length', () => {
+      ['', '123456', '123456789'].forEach(input => {
+        const result = validateIF(input);
+        expect(result.isValid).toBe(false);
+        expect(result.error?.code).toBe(IFValidationErrorCode.INVALID_LENGTH);
+      });
+    });
+
+    test('should reject non-numeric identifiers', () => {
+      const result = validateIF('40A23456');
+
+      expect(result.isValid).toBe(false);
+      expect(result.sanitized).toBe('40A23456');
+      expect(result.error?.code).toBe(
+        IFValidationErrorCode.NON_NUMERIC_CHARACTERS
+      );
+      expect(validateIF('N/A').error?.code).toBe(
+        IFValidationErrorCode.NON_NUMERIC_CHARACTERS
+      );
+    });
+
+    test('should reject placeholder values', () => {
+      ['00000000', '1111111', '99 999 999'].forEach(input => {
+        expect(validateIF(input).error?.code).toBe(
+          IFValidationErrorCode.PLACEHOLDER_VALUE
+        );
+      });
+    });
+
+    test('should reject non-string input', () => {
+      expect(validateIF(40123456).error?.code).toBe(
+        IFValidationErrorCode.INVALID_INPUT_TYPE
+      );
+    });
+  });
+
+  describe('isValidIF', () => {
+    test('should check identifiers', () => {
+      expect(isValidIF('40123456')).toBe(true);
+      expect(isValidIF('4012345X')).toBe(false);
+      expect(isValidIF(undefined)).toBe(false);
+    });
+  });
+});
+
+describe('TP Validator', () => {
+  describe('sanitizeTP', () => {
+    test('should remove labels and separators', () => {
+      expect(sanitizeTP('25700010')).toBe('25700010');
+      expect(sanitizeTP('TP: 2570 0010')).toBe('25700010');
+      expect(sanitizeTP('T.P. n° 25.700.010')).toBe('25700010');
+      expect(sanitizeTP('Patente 25-700-010')).toBe('25700010');
+      expect(sanitizeTP('N° de patente : 25700010')).toBe('25700010');
+      expect(sanitizeTP('Taxe professionnelle n° 25700010')).toBe('25700010');
+    });
+
+    test('should return null for non-string input', () => {
+      expect(sanitizeTP(null)).toBeNull();
+      expect(sanitizeTP(25700010)).toBeNull();
+    });
+  });
+
+  describe('validateTP', () => {
+    test('should validate 8-digit numbers', () => {
+      expect(validateTP('TP 25700010')).toEqual({
+        isValid: true,
+        sanitized: '25700010',
+      });
+    });
+
+    test('should reject numbers of the wrong length', () => {
+      ['', '2570001', '257000100'].forEach(input => {
+        const result = validateTP(input);
+        expect(result.isValid).toBe(false);
+        expect(result.error?.code).toBe(TPValidationErrorCode.INVALID_LENGTH);
+      });
+    });
+
+    test('should reject non-numeric numbers', () => {
+      const result = validateTP('2570001A');
+
+      expect(result.isValid).toBe(false);
+      expect(result.sanitized).toBe('2570001A');
+      expect(result.error?.code).toBe(
+        TPValidationErrorCode.NON_NUMERIC_CHARACTERS
+      );
+    });
+
+    test('should reject placeholder values', () => {
+      expect(validateTP('00000000').error?.code).toBe(
+        TPValidationErrorCode.PLACEHOLDER_VALUE
+      );
+    });
+
+    test('should reject non-string input', () => {
+      expect(validateTP(25700010).error?.code).toBe(
+        TPValidationErrorCode.INVALID_INPUT_TYPE
+      );
+    });
+  });
+
+  describe('isValidTP', () => {
+    test('should check numbers', () => {
+      expect(isValidTP('25700010')).toBe(true);
+      expect(isValidTP('2570')).toBe(false);
+      expect(isValidTP(undefined)).toBe(false);
+    });
+  });
+});
+
+describe('CNSS Validator', () => {
+  describe('sanitizeCNSS', () => {
+    test('should remove labels and separators', () => {
+      expect(sanitizeCNSS('123456789')).toBe('123456789');
+      expect(sanitizeCNSS('CNSS: 123 456 789')).toBe('123456789');
+      expect(sanitizeCNSS("N° d'affiliation 1234567")).toBe('1234567');
+      expect(sanitizeCNSS('Immatriculation CNSS 123.456.789')).toBe(
+        '123456789'
+      );
+      expect(sanitizeCNSS('C.N.S.S. n° 1234-567')).toBe('1234567');
+    });
+
+    test('should return null for non-string input', () => {
+      expect(sanitizeCNSS(null)).toBeNull();
+      expect(sanitizeCNSS(123456789)).toBeNull();
+    });
+  });
+
+  describe('validateCNSS', () => {
+    test('should infer the kind of number from its length', () => {
+      expect(validateCNSS('123 456 789')).toEqual({
+        isValid: true,
+        sanitized: '123456789',
+        type: 'immatriculation',
+      });
+      expect(validateCNSS('CNSS 1234567')).toEqual({
+        isValid: true,
+        sanitized: '1234567',
+        type: 'affiliation',
+      });
+    });
+
+    test('should check the length of the expected kind', () => {
+      expect(validateCNSS('123456789', 'immatriculation').isValid).toBe(true);
+      expect(validateCNSS('1234567', 'affiliation').isValid).toBe(true);
+      expect(validateCNSS('1234567', 'immatriculation').error?.code).toBe(
+        CNSSValidationErrorCode.INVALID_LENGTH
+      );
+      expect(validateCNSS('123456789', 'affiliation').error?.code).toBe(
+        CNSSValidationErrorCode.INVALID_LENGTH
+      );
+    });
+
+    test('should reject numbers of the wrong length', () => {
+      ['', '123456', '12345678', '1234567890'].forEach(input => {
+        const result = validateCNSS(input);
+        expect(result.isValid).toBe(false);
+        expect(result.error?.code).toBe(CNSSValidationErrorCode.INVALID_LENGTH);
+      });
+    });
+
+    test('should reject non-numeric numbers', () => {
+      const result = validateCNSS('12345678X');
+
+      expect(result.isValid).toBe(false);
+      expect(result.sanitized).toBe('12345678X');
+      expect(result.error?.code).toBe(
+        CNSSValidationErrorCode.NON_NUMERIC_CHARACTERS
+      );
+    });
+
+    test('should reject placeholder values', () => {
+      ['000000000', '1111111'].forEach(input => {
+        expect(validateCNSS(input).error?.code).toBe(
+          CNSSValidationErrorCode.PLACEHOLDER_VALUE
+        );
+      });
+    });
+
+    test('should reject non-string input', () => {
+      expect(validateCNSS(123456789).error?.code).toBe(
+        CNSSValidationErrorCode.INVALID_INPUT_TYPE
+      );
+    });
+  });
+
+  describe('isValidCNSS', () => {
+    test('should check numbers', () => {
+      expect(isValidCNSS('123456789')).toBe(true);
+      expect(isValidCNSS('123456789', 'affiliation')).toBe(false);
+      expect(isValidCNSS(undefined)).toBe(false);
+    });
+  });
+
+  describe('generateTestCNSS', () => {
+    test('should generate valid numbers of each kind', () => {
+      for (let i = 0; i < 20; i++) {
+        expect(isValidCNSS(generateTestCNSS(), 'immatriculation')).toBe(true);
+        expect(
+          isValidCNSS(generateTestCNSS('affiliation'), 'affiliation')
+        ).toBe(true);
+      }
+    });
+  });
+});
+
+describe('Company identity validator', () => {
+  const identity = {
+    ice: '001663252000092',
+    if: 'IF 40123456',
+    rc: '123456',
+    rcCourt: 'Casablanca',
+    tp: '25700010',
+    cnss: '1234567',
+    legalForm: 'S.A.R.L. AU',
+  };
+
+  describe('findLegalForm', () => {
+    test('should find legal forms by abbreviation or name', () => {
+      expect(findLegalForm('SARL')).toBe('SARL');
+      expect(findLegalForm('S.A.R.L. AU')).toBe('SARLAU');
+      expect(findLegalForm('sarl au')).toBe('SARLAU');
+      expect(findLegalForm('Société anonyme')).toBe('SA');
+      expect(findLegalForm('Auto-entrepreneur')).toBe('AE');
+    });
+
+    test('should return undefined for unknown legal forms', () => {
+      expect(findLegalForm('LLC')).toBeUndefined();
+      expect(findLegalForm('')).toBeUndefined();
+    });
+  });
+
+  describe('validateCompanyIdentity', () => {
+    test('should validate a complete identity', () => {
+      expect(validateCompanyIdentity(identity)).toEqual({
+        isValid: true,
+        sanitized: {
+          ice: '001663252000092',
+          if: '40123456',
+          rc: { court: 'Casablanca', number: '123456' },
+          tp: '25700010',
+          cnss: '1234567',
+          legalForm: 'SARLAU',
+        },
+        errors: {},
+      });
+    });
+
+    test('should report errors keyed by field', () => {
+      const result = validateCompanyIdentity({
+        ...identity,
+        ice: '001663252000093',
+        if: '123',
+        tp: '2570001A',
+        cnss: '123456789',
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.ice?.code).toBe('ICE_004');
+      expect(result.errors.if?.code).toBe(IFValidationErrorCode.INVALID_LENGTH);
+      expect(result.errors.tp?.code).toBe(
+        TPValidationErrorCode.NON_NUMERIC_CHARACTERS
+      );
+      expect(result.errors.cnss?.code).toBe(
+        CNSSValidationErrorCode.INVALID_LENGTH
+      );
+      expect(result.sanitized.rc).toEqual({
+        court: 'Casablanca',
+        number: '123456',
+      });
+    });
+
+    test('should require an ICE', () => {
+      const result = validateCompanyIdentity({ ...identity, ice: ' ' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.ice?.code).toBe(
+        CompanyIdentityErrorCode.MISSING_ICE
+      );
+    });
+
+    test('should require the RC court with the RC number', () => {
+      const result = validateCompanyIdentity({ ...identity, rcCourt: '' });
+
+      expect(result.errors.rcCourt?.code).toBe(
+        RCValidationErrorCode.MISSING_COURT
+      );
+      expect(
+        validateCompanyIdentity({
+          ...identity,
+          rc: 'RC Rabat 123456',
+          rcCourt: undefined,
+        }).isValid
+      ).toBe(true);
+      expect(
+        validateCompanyIdentity({ ...identity, rcCourt: 'Gotham' }).errors
+          .rcCourt?.code
+      ).toBe(RCValidationErrorCode.UNKNOWN_COURT);
+    });
+
+    test('should reject an RC court that is not a string', () => {
+      [42, { city: 'Rabat' }].forEach(rcCourt => {
+        const result = validateCompanyIdentity({
+          ...identity,
+          rcCourt: rcCourt as unknown as string,
+        });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors.rcCourt?.code).toBe(
+          RCValidationErrorCode.INVALID_INPUT_TYPE
+        );
+      });
+    });
+
+    test('should require the RC number with the RC court', () => {
+      const result = validateCompanyIdentity({ ...identity, rc: undefined });
+
+      expect(result.errors.rc?.code).toBe(
+        CompanyIdentityErrorCode.MISSING_RC_NUMBER
+      );
+    });
+
+    test('should require an RC for registered legal forms', () => {
+      const { ice, legalForm } = identity;
+
+      expect(validateCompanyIdentity({ ice, legalForm }).errors.rc?.code).toBe(
+        CompanyIdentityErrorCode.MISSING_RC
+      );
+      expect(
+        validateCompanyIdentity({ ice, legalForm: 'auto-entrepreneur' })
+      ).toEqual({
+        isValid: true,
+        sanitized: { ice, legalForm: 'AE' },
+        errors: {},
+      });
+    });
+
+    test('should reject unknown legal forms', () => {
+      const result = validateCompanyIdentity({ ...identity, legalForm: 'LLC' });
+
+      expect(result.errors.legalForm?.code).toBe(
+        CompanyIdentityErrorCode.UNKNOWN_LEGAL_FORM
+      );
     });
   });
 });
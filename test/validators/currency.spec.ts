@@ -0,0 +1,405 @@
+import {
+  CurrencyErrorCode,
+  CurrencyException,
+} from '../../src/validators/currency';
+import { madToWords, wordsToMAD } from '../../src/validators/';
+import { formatMAD, parseMAD } from '../../src/formatters/currency';
+
+describe('Currency', () => {
+  describe('madToWords', () => {
+    describe('in French', () => {
+      const numeral = (amount: number) =>
+        madToWords(amount).replace(/ (de )?dirhams?$/, '');
+
+      it('should write every number below one hundred', () => {
+        const expected = [
+          'zéro',
+          'un',
+          'deux',
+          'trois',
+          'quatre',
+          'cinq',
+          'six',
+          'sept',
+          'huit',
+          'neuf',
+          'dix',
+          'onze',
+          'douze',
+          'treize',
+          'quatorze',
+          'quinze',
+          'seize',
+          'dix-sept',
+          'dix-huit',
+          'dix-neuf',
+          'vingt',
+          'vingt et un',
+          'vingt-deux',
+          'vingt-trois',
+          'vingt-quatre',
+          'vingt-cinq',
+          'vingt-six',
+          'vingt-sept',
+          'vingt-huit',
+          'vingt-neuf',
+          'trente',
+          'trente et un',
+          'trente-deux',
+          'trente-trois',
+          'trente-quatre',
+          'trente-cinq',
+          'trente-six',
+          'trente-sept',
+          'trente-huit',
+          'trente-neuf',
+          'quarante',
+          'quarante et un',
+          'quarante-deux',
+          'quarante-trois',
+          'quarante-quatre',
+          'quarante-cinq',
+          'quarante-six',
+          'quarante-sept',
+          'quarante-huit',
+          'quarante-neuf',
+          'cinquante',
+          'cinquante et un',
+          'cinquante-deux',
+          'cinquante-trois',
+          'cinquante-quatre',
+          'cinquante-cinq',
+          'cinquante-six',
+          'cinquante-sept',
+          'cinquante-huit',
+          'cinquante-neuf',
+          'soixante',
+          'soixante et un',
+          'soixante-deux',
+          'soixante-trois',
+          'soixante-quatre',
+          'soixante-cinq',
+          'soixante-six',
+          'soixante-sept',
+          'soixante-huit',
+          'soixante-neuf',
+          'soixante-dix',
+          'soixante et onze',
+          'soixante-douze',
+          'soixante-treize',
+          'soixante-quatorze',
+          'soixante-quinze',
+          'soixante-seize',
+          'soixante-dix-sept',
+          'soixante-dix-huit',
+          'soixante-dix-neuf',
+          'quatre-vingts',
+          'quatre-vingt-un',
+          'quatre-vingt-deux',
+          'quatre-vingt-trois',
+          'quatre-vingt-quatre',
+          'quatre-vingt-cinq',
+          'quatre-vingt-six',
+          'quatre-vingt-sept',
+          'quatre-vingt-huit',
+          'quatre-vingt-neuf',
+          'quatre-vingt-dix',
+          'quatre-vingt-onze',
+          'quatre-vingt-douze',
+          'quatre-vingt-treize',
+          'quatre-vingt-quatorze',
+          'quatre-vingt-quinze',
+          'quatre-vingt-seize',
+          'quatre-vingt-dix-sept',
+          'quatre-vingt-dix-huit',
+          'quatre-vingt-dix-neuf',
+        ];
+
+        expected.forEach((words, n) => expect(numeral(n)).toBe(words));
+      });
+
+      it('should agree dirham and centime with the amount', () => {
+        expect(madToWords(1)).toBe('un dirham');
+        expect(madToWords(2)).toBe('deux dirhams');
+        expect(madToWords(0.01)).toBe('un centime');
+        expect(madToWords(0.8)).toBe('quatre-vingts centimes');
+        expect(madToWords(1.01)).toBe('un dirham et un centime');
+        expect(madToWords(21.71)).toBe(
+          'vingt et un dirhams et soixante et onze centimes'
+        );
+      });
+
+      it('should only pluralize cent when it ends the number', () => {
+        expect(numeral(100)).toBe('cent');
+        expect(numeral(101)).toBe('cent un');
+        expect(numeral(180)).toBe('cent quatre-vingts');
+        expect(numeral(200)).toBe('deux cents');
+        expect(numeral(201)).toBe('deux cent un');
+        expect(numeral(999)).toBe('neuf cent quatre-vingt-dix-neuf');
+      });
+
+      it('should keep mille invariable', () => {
+        expect(numeral(1000)).toBe('mille');
+        expect(numeral(1001)).toBe('mille un');
+        expect(numeral(2000)).toBe('deux mille');
+        expect(numeral(21_000)).toBe('vingt et un mille');
+        expect(numeral(80_000)).toBe('quatre-vingt mille');
+        expect(numeral(200_000)).toBe('deux cent mille');
+        expect(numeral(999_999)).toBe(
+          'neuf cent quatre-vingt-dix-neuf mille neuf cent quatre-vingt-dix-neuf'
+        );
+      });
+
+      it('should pluralize million and milliard as nouns', () => {
+        expect(numeral(1_000_000)).toBe('un million');
+        expect(numeral(2_000_000)).toBe('deux millions');
+        expect(numeral(80_000_000)).toBe('quatre-vingts millions');
+        expect(numeral(200_000_000)).toBe('deux cents millions');
+        expect(numeral(1_000_000_000)).toBe('un milliard');
+        expect(numeral(3_000_000_000)).toBe('trois milliards');
+        expect(numeral(1_002_003_004)).toBe(
+          'un milliard deux millions trois mille quatre'
+        );
+      });
+
+      it('should write "de dirhams" after round millions and milliards', () => {
+        expect(madToWords(1_000_000)).toBe('un million de dirhams');
+        expect(madToWords(3_000_000_000)).toBe('trois milliards de dirhams');
+        expect(madToWords(2_000_000.5)).toBe(
+          'deux millions de dirhams et cinquante centimes'
+        );
+        expect(madToWords(1_000_100)).toBe('un million cent dirhams');
+      });
+
+      it('should convert the largest supported amount', () => {
+        expect(madToWords(999_999_999_999.99)).toBe(
+          'neuf cent quatre-vingt-dix-neuf milliards ' +
+            'neuf cent quatre-vingt-dix-neuf millions ' +
+            'neuf cent quatre-vingt-dix-neuf mille ' +
+            'neuf cent quatre-vingt-dix-neuf dirhams ' +
+            'et quatre-vingt-dix-neuf centimes'
+        );
+      });
+
+      it('should hyphenate all numerals with the 1990 spelling', () => {
+        const toReformed = (amount: number) =>
+          madToWords(amount, { orthography: 'reformed' });
+
+        expect(toReformed(21)).toBe('vingt-et-un dirhams');
+        expect(toReformed(71)).toBe('soixante-et-onze dirhams');
+        expect(toReformed(1234)).toBe('mille-deux-cent-trente-quatre dirhams');
+        expect(toReformed(200_000)).toBe('deux-cent-mille dirhams');
+        expect(toReformed(2_000_021)).toBe('deux millions vingt-et-un dirhams');
+        expect(toReformed(0.81)).toBe('quatre-vingt-un centimes');
+      });
+
+      it('should handle negative amounts', () => {
+        expect(madToWords(-80)).toBe('moins quatre-vingts dirhams');
+      });
+
+      it('should return an error message beyond 999 billion', () => {
+        expect(madToWords(1_000_000_000_000)).toBe('erreur de conversion');
+        expect(madToWords(-1_000_000_000_000)).toBe('erreur de conversion');
+      });
+    });
+
+    describe('in Arabic', () => {
+      const toArabic = (amount: number) =>
+        madToWords(amount, { language: 'ar' });
+
+      it('should convert an amount with centimes', () => {
+        expect(toArabic(1234.67)).toBe(
+          'ألف ومائتان وأربعة وثلاثون درهما وسبعة وستون سنتيما'
+        );
+      });
+
+      it('should use singular and dual forms for one and two', () => {
+        expect(toArabic(1)).toBe('درهم واحد');
+        expect(toArabic(2)).toBe('درهمان');
+        expect(toArabic(0.01)).toBe('سنتيم واحد');
+        expect(toArabic(0.02)).toBe('سنتيمان');
+        expect(toArabic(1.02)).toBe('درهم واحد وسنتيمان');
+      });
+
+      it('should use the plural form from three to ten', () => {
+        expect(toArabic(3)).toBe('ثلاثة دراهم');
+        expect(toArabic(10)).toBe('عشرة دراهم');
+        expect(toArabic(0.05)).toBe('خمسة سنتيمات');
+      });
+
+      it('should use the accusative singular from eleven to ninety-nine', () => {
+        expect(toArabic(11)).toBe('أحد عشر درهما');
+        expect(toArabic(12)).toBe('اثنا عشر درهما');
+        expect(toArabic(21)).toBe('واحد وعشرون درهما');
+        expect(toArabic(99)).toBe('تسعة وتسعون درهما');
+      });
+
+      it('should use the singular form after round hundreds', () => {
+        expect(toArabic(100)).toBe('مائة درهم');
+        expect(toArabic(200)).toBe('مائتا درهم');
+        expect(toArabic(300)).toBe('ثلاثمائة درهم');
+        expect(toArabic(1000)).toBe('ألف درهم');
+      });
+
+      it('should follow the last two digits for larger numbers', () => {
+        expect(toArabic(103)).toBe('مائة وثلاثة دراهم');
+        expect(toArabic(250)).toBe('مائتان وخمسون درهما');
+        expect(toArabic(1200)).toBe('ألف ومائتا درهم');
+      });
+
+      it('should agree scales with their count', () => {
+        expect(toArabic(2000)).toBe('ألفا درهم');
+        expect(toArabic(2500)).toBe('ألفان وخمسمائة درهم');
+        expect(toArabic(3000)).toBe('ثلاثة آلاف درهم');
+        expect(toArabic(11000)).toBe('أحد عشر ألف درهم');
+        expect(toArabic(11500)).toBe('أحد عشر ألفا وخمسمائة درهم');
+        expect(toArabic(200000)).toBe('مائتا ألف درهم');
+        expect(toArabic(1_000_000)).toBe('مليون درهم');
+        expect(toArabic(2_000_000)).toBe('مليونا درهم');
+        expect(toArabic(5_000_000)).toBe('خمسة ملايين درهم');
+        expect(toArabic(2_500_000_000)).toBe('ملياران وخمسمائة مليون درهم');
+      });
+
+      it('should convert zero and amounts below one dirham', () => {
+        expect(toArabic(0)).toBe('صفر درهم');
+        expect(toArabic(0.5)).toBe('خمسون سنتيما');
+      });
+
+      it('should handle negative amounts', () => {
+        expect(toArabic(-45.67)).toBe(
+          'ناقص خمسة وأربعون درهما وسبعة وستون سنتيما'
+        );
+      });
+
+      it('should return an error message for invalid amounts', () => {
+        expect(toArabic(NaN)).toBe('خطأ في التحويل');
+        expect(toArabic('12' as unknown as number)).toBe('خطأ في التحويل');
+      });
+    });
+
+    describe('shared handling', () => {
+      it('should round amounts to the centime', () => {
+        expect(madToWords(1.999)).toBe('deux dirhams');
+        expect(madToWords(1.999, { language: 'ar' })).toBe('درهمان');
+      });
+
+      it('should round like formatMAD', () => {
+        expect(parseMAD(formatMAD(1.005))).toBe(101);
+        expect(madToWords(1.005)).toBe('un dirham et un centime');
+        expect(madToWords(-2.675)).toBe(
+          'moins deux dirhams et soixante-huit centimes'
+        );
+      });
+
+      it('should not mark amounts rounding to zero as negative', () => {
+        expect(madToWords(-0.001)).toBe('zéro dirhams');
+      });
+
+      it('should return an error message for non-finite amounts', () => {
+        expect(madToWords(Infinity)).toBe('erreur de conversion');
+        expect(madToWords(1e12, { language: 'ar' })).toBe('خطأ في التحويل');
+      });
+    });
+  });
+  describe('wordsToMAD', () => {
+    const expectInvalid = (words: string) => {
+      expect(() => wordsToMAD(words)).toThrow(CurrencyException);
+      try {
+        wordsToMAD(words);
+      } catch (error) {
+        expect((error as CurrencyException).code).toBe(
+          CurrencyErrorCode.INVALID_WORDS
+        );
+      }
+    };
+
+    const amounts = [
+      0, 0.01, 1, 2, 17, 21, 71, 80, 81, 91, 99.99, 100, 180, 200, 201, 1000,
+      1234.5, 2000, 21_000, 80_000, 200_000, 999_999, 1_000_000, 2_000_021,
+      80_000_000, 1_002_003_004, 2_500_000_000, 999_999_999_999.99,
+    ];
+
+    it('should read back French words written by madToWords', () => {
+      amounts.forEach(amount => {
+        expect(wordsToMAD(madToWords(amount))).toBe(amount);
+        expect(
+          wordsToMAD(madToWords(amount, { orthography: 'reformed' }))
+        ).toBe(amount);
+      });
+    });
+
+    it('should read back Arabic words written by madToWords', () => {
+      amounts.forEach(amount => {
+        expect(wordsToMAD(madToWords(amount, { language: 'ar' }))).toBe(amount);
+      });
+    });
+
+    it('should read negative amounts', () => {
+      expect(wordsToMAD(madToWords(-45.67))).toBe(-45.67);
+      expect(wordsToMAD(madToWords(-45.67, { language: 'ar' }))).toBe(-45.67);
+    });
+
+    it('should tolerate missing hyphens, accents and case', () => {
+      expect(
+        wordsToMAD(
+          'Mille deux cent trente quatre dirhams et cinquante centimes'
+        )
+      ).toBe(1234.5);
+      expect(wordsToMAD('QUATRE VINGT DIX SEPT DIRHAMS')).toBe(97);
+      expect(wordsToMAD('zero dirhams')).toBe(0);
+      expect(wordsToMAD('Soixante et onze Dirhams')).toBe(71);
+    });
+
+    it('should accept dirham abbreviations and omitted units', () => {
+      expect(wordsToMAD('deux cents DH')).toBe(200);
+      expect(wordsToMAD('cinq mille dhs.')).toBe(5000);
+      expect(wordsToMAD('mille MAD')).toBe(1000);
+      expect(wordsToMAD('dix dirhams cinquante')).toBe(10.5);
+      expect(wordsToMAD('trois cent quarante')).toBe(340);
+      expect(wordsToMAD('cinquante centimes')).toBe(0.5);
+    });
+
+    it('should accept hundreds counted from eleven to nineteen', () => {
+      expect(wordsToMAD('douze cents dirhams')).toBe(1200);
+      expect(wordsToMAD('seize cent dirhams')).toBe(1600);
+      expect(wordsToMAD('dix-neuf cent quatre-vingt-dix dirhams')).toBe(1990);
+      expectInvalid('dix cents dirhams');
+      expectInvalid('vingt cents dirhams');
+      expectInvalid('quatre-vingts cents dirhams');
+    });
+
+    it('should accept regional French numerals', () => {
+      expect(wordsToMAD('septante-cinq dirhams')).toBe(75);
+      expect(wordsToMAD('nonante dirhams')).toBe(90);
+    });
+
+    it('should tolerate Arabic spelling variants', () => {
+      expect(wordsToMAD('مئتا درهم')).toBe(200);
+      expect(wordsToMAD('أَلْفُ دِرْهَمٍ')).toBe(1000);
+      expect(wordsToMAD('ثلاث مائة وخمسة عشر درهما فقط لا غير')).toBe(315);
+      expect(wordsToMAD('خمسون د.م.')).toBe(50);
+    });
+
+    it('should honour an explicit language', () => {
+      expect(wordsToMAD('cent dirhams', { language: 'fr' })).toBe(100);
+      expect(() => wordsToMAD('cent dirhams', { language: 'ar' })).toThrow(
+        CurrencyException
+      );
+    });
+
+    it('should reject words that are not an amount', () => {
+      expectInvalid('');
+      expectInvalid('douze pommes');
+      expectInvalid('dirhams');
+      expectInvalid('vingt vingt dirhams');
+      expectInvalid('un un dirhams');
+      expectInvalid('mille mille dirhams');
+      expectInvalid('dix dirhams cent centimes');
+      expectInvalid('cinquante centimes dix dirhams');
+      expectInvalid('vingt moins dirhams');
+      expect(() => wordsToMAD(12 as unknown as string)).toThrow(
+        CurrencyException
+      );
+    });
+  });
+});
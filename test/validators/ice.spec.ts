@@ -4,6 +4,7 @@ import {
   generateRandomDigits,
   generateTestICE,
   ICEValidationErrorCode,
+  ICEValidationException,
   isValidICE,
   sanitizeICE,
   validateControl,
@@ -11,7 +12,7 @@ import {
 
 describe('ICE Validators', () => {
   describe('validateICE', () => {
-    const VALID_ICE = '123456789000060';
+    const VALID_ICE = '123456789000014';
     const INVALID_CONTROL_ICE = '123456789000061';
     const SHORT_ICE = '12345678900006';
     const LONG_ICE = '1234567890000600';
@@ -26,8 +27,39 @@ describe('ICE Validators', () => {
       expect(result.components).toEqual({
         company: '123456789',
         establishment: '0000',
-        control: '60',
+        control: '14',
       });
+      expect(result.controlAlgorithm).toBe('official');
+    });
+
+    test('should validate real ICE numbers', () => {
+      ['001663252000092', '001436361000017', '000193552000068'].forEach(ice =>
+        expect(validateICE(ice).isValid).toBeTruthy()
+      );
+    });
+
+    test('should only accept legacy control keys when requested', () => {
+      const LEGACY_ICE = '123456789000060';
+
+      expect(validateICE(LEGACY_ICE).error?.code).toBe(
+        ICEValidationErrorCode.INVALID_CONTROL
+      );
+
+      const result = validateICE(LEGACY_ICE, { acceptLegacyControl: true });
+      expect(result.isValid).toBeTruthy();
+      expect(result.controlAlgorithm).toBe('legacy');
+      expect(
+        validateICE(VALID_ICE, { acceptLegacyControl: true }).controlAlgorithm
+      ).toBe('official');
+    });
+
+    test('should return invalid input type for non-string ICE', () => {
+      const result = validateICE(123456789000014 as unknown as string);
+
+      expect(result.isValid).toBeFalsy();
+      expect(result.error?.code).toBe(
+        ICEValidationErrorCode.INVALID_INPUT_TYPE
+      );
     });
 
     test('should return invalid length for short ICE', () => {
@@ -58,6 +90,7 @@ describe('ICE Validators', () => {
       expect(result.isValid).toBeFalsy();
       expect(result.error?.code).toBe(ICEValidationErrorCode.INVALID_CONTROL);
       expect(result.error?.details).toMatchObject({
+        calculatedControl: '14',
         providedControl: '61',
         sanitized: INVALID_CONTROL_ICE,
       });
@@ -85,9 +118,19 @@ describe('ICE Validators', () => {
   describe('isValidICE', () => {
     // Valid ICE numbers
     test('should return true for valid ICE numbers', () => {
-      expect(isValidICE('123456789000060')).toBeTruthy(); // Valid ICE
-      expect(isValidICE('000000000000000')).toBeTruthy(); // Edge case: all zeros
-      expect(isValidICE('999999999999914')).toBeTruthy(); // Edge case: all nines
+      expect(isValidICE('123456789000014')).toBeTruthy(); // Valid ICE
+      expect(isValidICE('000000000000097')).toBeTruthy(); // Edge case: all zeros
+      expect(isValidICE('999999999999955')).toBeTruthy(); // Edge case: all nines
+    });
+
+    test('should accept legacy ICE numbers when requested', () => {
+      expect(isValidICE('000000000000000')).toBeFalsy();
+      expect(
+        isValidICE('000000000000000', { acceptLegacyControl: true })
+      ).toBeTruthy();
+      expect(
+        isValidICE('999999999999914', { acceptLegacyControl: true })
+      ).toBeTruthy();
     });
 
     // Invalid ICE numbers
@@ -144,13 +187,20 @@ describe('ICE Validators', () => {
 
   describe('validateControl', () => {
     test('should return true for valid control characters', () => {
-      // Example: 1234567890000 % 97 = 60 → control characters should be "60"
-      const validICE = '123456789000060';
+      // Example: 97 - (1234567890000 × 100 % 97) = 14 → control characters should be "14"
+      const validICE = '123456789000014';
       expect(validateControl(validICE)).toBeTruthy();
     });
 
+    test('should check legacy control characters when requested', () => {
+      // Example: 1234567890000 % 97 = 60
+      expect(validateControl('123456789000060', 'legacy')).toBeTruthy();
+      expect(validateControl('123456789000060')).toBeFalsy();
+      expect(validateControl('123456789000014', 'legacy')).toBeFalsy();
+    });
+
     test('should return false for invalid control characters', () => {
-      // Example: 1234567890000 % 97 = 60, but control characters are "99"
+      // Example: control characters should be "14", but are "99"
       const invalidICE = '123456789000099';
       expect(validateControl(invalidICE)).toBeFalsy();
     });
@@ -257,37 +307,56 @@ describe('ICE Validators', () => {
     test('should calculates control for full ICE (15 digits)', () => {
       const ice = '123456789000131';
       const control = calculateControl(ice);
-      expect(control).toBe('61');
+      expect(control).toBe('11');
     });
 
     test('should calculates control for partial ICE (13 digits)', () => {
       const ice = '1234567890001';
       const control = calculateControl(ice);
-      expect(control).toBe('61');
+      expect(control).toBe('11');
     });
 
     test('should calculates control for edge case (all zeros)', () => {
       const ice = '000000000000000';
       const control = calculateControl(ice);
-      expect(control).toBe('00');
+      expect(control).toBe('97');
     });
 
     test('should calculates control for maximum value (all 9s)', () => {
       const ice = '999999999999999';
       const control = calculateControl(ice);
-      expect(control).toBe('14');
+      expect(control).toBe('55');
     });
 
     test('should calculates control for a random ICE', () => {
       const ice = '987654321012345';
       const control = calculateControl(ice);
-      expect(control).toBe('05');
+      expect(control).toBe('82');
     });
 
     test('should handles shorter input (less than 13 digits)', () => {
       const ice = '123456789';
       const control = calculateControl(ice);
-      expect(control).toBe('39');
+      expect(control).toBe('77');
+    });
+
+    test('should calculates legacy control (MOD 97)', () => {
+      expect(calculateControl('123456789000131', 'legacy')).toBe('61');
+      expect(calculateControl('000000000000000', 'legacy')).toBe('00');
+      expect(calculateControl('999999999999999', 'legacy')).toBe('14');
+      expect(calculateControl('987654321012345', 'legacy')).toBe('05');
+    });
+
+    test('should throw for non-numeric input', () => {
+      expect(() => calculateControl('12345678900X1')).toThrow(
+        ICEValidationException
+      );
+    });
+
+    test('should generate ICE numbers with an official control', () => {
+      const ice = generateTestICE();
+      expect(validateControl(ice)).toBeTruthy();
+      expect(isValidICE(ice)).toBeTruthy();
     });
   });
 });
@@ -0,0 +1,288 @@
+import {
+  checkInvoiceMentions,
+  InvoiceValidationErrorCode,
+} from '../../src/validators/invoice';
+import { Invoice } from '../../src/types/invoice';
+import { computeInvoiceVAT } from '../../src/calculators/vat';
+
+describe('Invoice mentions checker', () => {
+  const invoice: Invoice = {
+    number: 'F-2024-0042',
+    date: '2024-03-15',
+    seller: {
+      name: 'Zellige SARL',
+      ice: '001663252000092',
+      if: '40123456',
+      rc: '12345',
+      rcCourt: 'Rabat',
+      tp: '25700010',
+    },
+    buyer: { name: 'Atlas SA', ice: '001436361000017' },
+    totals: {
+      exclTax: 150000,
+      vat: 27000,
+      inclTax: 177000,
+      byRate: [
+        { rate: 20, exclTax: 100000, vat: 20000 },
+        { rate: 14, exclTax: 50000, vat: 7000 },
+      ],
+    },
+    paymentTerms: '30 jours fin de mois',
+  };
+
+  const mentionsOf = (toCheck: Invoice) =>
+    checkInvoiceMentions(toCheck).issues.map(({ mention, code }) => ({
+      mention,
+      code,
+    }));
+
+  test('should accept a compliant invoice', () => {
+    expect(checkInvoiceMentions(invoice)).toEqual({
+      isCompliant: true,
+      issues: [],
+    });
+  });
+
+  test('should report missing mentions', () => {
+    expect(mentionsOf({ seller: {}, buyer: {} })).toEqual(
+      [
+        'number',
+        'date',
+        'seller.ice',
+        'seller.if',
+        'seller.rc',
+        'seller.tp',
+        'buyer.ice',
+        'totals',
+        'totals.byRate',
+        'paymentTerms',
+      ].map(mention => ({
+        mention,
+        code: InvoiceValidationErrorCode.MISSING_MENTION,
+      }))
+    );
+  });
+
+  test('should report invalid identifiers with their validation error', () => {
+    const result = checkInvoiceMentions({
+      ...invoice,
+      seller: { ...invoice.seller, ice: '001663252000093', rcCourt: '' },
+      buyer: { ice: '123' },
+    });
+
+    expect(result.isCompliant).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        mention: 'seller.ice',
+        code: InvoiceValidationErrorCode.INVALID_MENTION,
+        details: expect.objectContaining({
+          error: expect.objectContaining({ code: 'ICE_004' }),
+        }),
+      }),
+      expect.objectContaining({
+        mention: 'seller.rc',
+        details: expect.objectContaining({
+          error: expect.objectContaining({ code: 'RC_003' }),
+        }),
+      }),
+      expect.objectContaining({
+        mention: 'buyer.ice',
+        details: expect.objectContaining({
+          error: expect.objectContaining({ code: 'ICE_002' }),
+        }),
+      }),
+    ]);
+  });
+
+  test('should only require the buyer ICE for businesses', () => {
+    expect(
+      checkInvoiceMentions({ ...invoice, buyer: { isBusiness: false } })
+        .isCompliant
+    ).toBe(true);
+    expect(mentionsOf({ ...invoice, buyer: { name: 'Atlas SA' } })).toEqual([
+      {
+        mention: 'buyer.ice',
+        code: InvoiceValidationErrorCode.MISSING_MENTION,
+      },
+    ]);
+  });
+
+  test('should check that totals add up', () => {
+    expect(
+      mentionsOf({
+        ...invoice,
+        totals: { ...invoice.totals, inclTax: 177001 },
+      })
+    ).toEqual([
+      {
+        mention: 'totals',
+        code: InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      },
+    ]);
+    expect(
+      mentionsOf({
+        ...invoice,
+        totals: {
+          ...invoice.totals,
+          byRate: [{ rate: 20, exclTax: 150000, vat: 20000 }],
+        },
+      })
+    ).toEqual([
+      {
+        mention: 'totals.byRate',
+        code: InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      },
+    ]);
+  });
+
+  test('should check the TVA of each rate', () => {
+    expect(
+      mentionsOf({
+        ...invoice,
+        totals: {
+          exclTax: 10000,
+          vat: 5000,
+          inclTax: 15000,
+          byRate: [{ rate: 20, exclTax: 10000, vat: 5000 }],
+        },
+      })
+    ).toEqual([
+      {
+        mention: 'totals.byRate',
+        code: InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      },
+    ]);
+
+    // TVA rounded line by line may be off by a few centimes
+    expect(
+      checkInvoiceMentions({
+        ...invoice,
+        totals: {
+          exclTax: 10000,
+          vat: 2003,
+          inclTax: 12003,
+          byRate: [{ rate: 20, exclTax: 10000, vat: 2003 }],
+        },
+      }).isCompliant
+    ).toBe(true);
+  });
+
+  test('should accept TVA rounded line by line', () => {
+    const lines = Array.from({ length: 20 }, () => ({
+      unitPrice: 1005,
+      quantity: 1,
+      rate: 10 as const,
+    }));
+    const breakdown = computeInvoiceVAT(lines, { rounding: 'line' });
+    const totals = {
+      ...breakdown,
+      byRate: breakdown.byRate.map(total => ({ ...total, lines: 20 })),
+    };
+
+    expect(breakdown.vat).toBe(2020);
+    expect(checkInvoiceMentions({ ...invoice, totals }).isCompliant).toBe(true);
+    // Without the line count, the difference exceeds the default tolerance
+    expect(mentionsOf({ ...invoice, totals: { ...breakdown } })).toEqual([
+      {
+        mention: 'totals.byRate',
+        code: InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      },
+    ]);
+    expect(
+      mentionsOf({
+        ...invoice,
+        totals: {
+          ...totals,
+          vat: 2030,
+          inclTax: 22130,
+          byRate: [{ rate: 10, exclTax: 20100, vat: 2030, lines: 20 }],
+        },
+      })
+    ).toEqual([
+      {
+        mention: 'totals.byRate',
+        code: InvoiceValidationErrorCode.INCONSISTENT_TOTALS,
+      },
+    ]);
+  });
+
+  test('should reject invalid amounts and TVA rates', () => {
+    expect(
+      mentionsOf({
+        ...invoice,
+        totals: { ...invoice.totals, vat: 270.5 },
+      })[0]
+    ).toEqual({
+      mention: 'totals',
+      code: InvoiceValidationErrorCode.INVALID_MENTION,
+    });
+    expect(
+      mentionsOf({
+        ...invoice,
+        totals: {
+          ...invoice.totals,
+          byRate: [
+            { rate: 19, exclTax: 100000, vat: 19000 },
+            { rate: 14, exclTax: 50000, vat: 7000 },
+          ],
+        },
+      })
+    ).toEqual([
+      {
+        mention: 'totals.byRate',
+        code: InvoiceValidationErrorCode.INVALID_MENTION,
+      },
+    ]);
+  });
+
+  test('should check dates and accept a due date as payment terms', () => {
+    expect(
+      checkInvoiceMentions({
+        ...invoice,
+        paymentTerms: undefined,
+        dueDate: new Date(2024, 3, 15),
+      }).isCompliant
+    ).toBe(true);
+    expect(
+      mentionsOf({ ...invoice, date: 'not a date', dueDate: '2024-13-45' })
+    ).toEqual([
+      { mention: 'date', code: InvoiceValidationErrorCode.INVALID_MENTION },
+      {
+        mention: 'paymentTerms',
+        code: InvoiceValidationErrorCode.INVALID_MENTION,
+      },
+    ]);
+  });
+
+  test('should reject dates that do not exist', () => {
+    [
+      '2024-02-30',
+      '2023-02-29',
+      '2024-04-31',
+      '2024-3-15',
+      '15/03/2024',
+    ].forEach(date => {
+      expect(mentionsOf({ ...invoice, date })).toEqual([
+        {
+          mention: 'date',
+          code: InvoiceValidationErrorCode.INVALID_MENTION,
+        },
+      ]);
+    });
+    expect(
+      checkInvoiceMentions({ ...invoice, date: '2024-02-29' }).isCompliant
+    ).toBe(true);
+  });
+
+  test('should reject non-object input', () => {
+    expect(checkInvoiceMentions(null as unknown as Invoice)).toEqual({
+      isCompliant: false,
+      issues: [
+        expect.objectContaining({
+          mention: 'invoice',
+          code: InvoiceValidationErrorCode.INVALID_INPUT_TYPE,
+        }),
+      ],
+    });
+  });
+});